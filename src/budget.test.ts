@@ -0,0 +1,105 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import {
+  BudgetExceededError,
+  BudgetGuard,
+  CostEstimate,
+  SpendLedger,
+  consensusMetadata,
+  estimateQueryCost,
+} from './budget.js';
+import { PricingService } from './services/PricingService.js';
+
+const estimate = (total: number): CostEstimate => ({ total, promptTokens: 0, perModel: {} });
+
+describe('Budget guardrails', () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = mkdtempSync(path.join(tmpdir(), 'coe-budget-'));
+    vi.stubEnv('COE_CACHE_DIR', cacheDir);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should estimate more for extra rounds and synthesis', () => {
+    const pricing = new PricingService();
+    pricing.setCatalog([
+      { id: 'a/model', pricing: { prompt: '0.000001', completion: '0.000002' } },
+      { id: 'b/model', pricing: { prompt: '0.000001', completion: '0.000002' } },
+    ]);
+    const plan = { prompt: 'x'.repeat(4000), modelIds: ['a/model', 'b/model'], rounds: 1 };
+
+    const oneRound = estimateQueryCost(pricing, plan);
+    const twoRounds = estimateQueryCost(pricing, { ...plan, rounds: 2 });
+    const synthesized = estimateQueryCost(pricing, { ...plan, rounds: 2, synthesizer: 'a/model' });
+
+    expect(oneRound.promptTokens).toBeGreaterThanOrEqual(1000);
+    expect(oneRound.total).toBeGreaterThan(0);
+    expect(twoRounds.total).toBeGreaterThan(oneRound.total * 2);
+    expect(synthesized.total).toBeGreaterThan(twoRounds.total);
+    expect(Object.keys(oneRound.perModel)).toEqual(['a/model', 'b/model']);
+  });
+
+  it('should refuse a query estimated over the per-query limit unless confirmed', async () => {
+    await expect(
+      new BudgetGuard({ maxCostPerQuery: 0.01 }).preflight(estimate(0.05))
+    ).rejects.toBeInstanceOf(BudgetExceededError);
+
+    const confirm = vi.fn().mockResolvedValue(true);
+    const guard = new BudgetGuard({ maxCostPerQuery: 0.01 });
+    await guard.preflight(estimate(0.05), confirm);
+
+    expect(confirm).toHaveBeenCalledWith(0.05, 0.01);
+    expect(guard.allows(0.05)).toBe(true);
+  });
+
+  it('should stop a run once actual spend reaches the limit', async () => {
+    const guard = new BudgetGuard({ maxCostPerQuery: 0.1 });
+    await guard.preflight(estimate(0.05));
+
+    expect(guard.allows(0.09)).toBe(true);
+    expect(guard.allows(0.1)).toBe(false);
+  });
+
+  it('should total the synthesis, verdict and ranking with the rounds', () => {
+    const meta = (estimatedCost: number) => ({ totalTokens: 10, latencyMs: 100, estimatedCost });
+    const metadata = consensusMetadata({
+      rounds: [[{ model: 'one', content: 'Yes', meta: meta(0.01) }]],
+      synthesis: { model: 'synth', content: 'Yes', meta: meta(0.02) },
+      verdict: { model: 'judge', content: 'Yes', meta: meta(0.03) },
+      ranking: {
+        ballots: [{ ranker: 'one', order: [], justifications: {}, meta: meta(0.04) }],
+        matrix: {},
+        leaderboard: [],
+      },
+    });
+
+    expect(metadata.totalCost).toBeCloseTo(0.1);
+    expect(metadata).toMatchObject({ totalTokens: 40, averageLatency: 100, modelCount: 1 });
+  });
+
+  it('should refuse queries once the daily budget is spent', async () => {
+    await new SpendLedger().record(1);
+
+    await expect(
+      new BudgetGuard({ maxCostPerDay: 1 }).preflight(estimate(0), () => Promise.resolve(true))
+    ).rejects.toThrow('Daily budget of $1.00 is already spent');
+  });
+
+  it("should not count one council's spend against another's daily budget", async () => {
+    await new SpendLedger('research').record(1);
+
+    expect(await new SpendLedger('research').spentToday()).toBe(1);
+    await expect(
+      new BudgetGuard({ maxCostPerDay: 1 }, new SpendLedger('coding')).preflight(estimate(0.5))
+    ).resolves.toBeUndefined();
+  });
+});
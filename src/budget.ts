@@ -0,0 +1,251 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { getCacheDir } from './config.js';
+import { ModelResponse } from './council-client.js';
+import { IPricingService } from './interfaces.js';
+import { ConsensusResponse } from './types.js';
+
+// Assumed length of each answer when estimating a query before it runs
+const ESTIMATED_COMPLETION_TOKENS = 800;
+// Instructions wrapped around peer answers in consensus rounds
+const CONSENSUS_OVERHEAD_TOKENS = 50;
+
+export interface BudgetLimits {
+  maxCostPerQuery?: number;
+  maxCostPerDay?: number;
+}
+
+export interface QueryPlan {
+  prompt: string;
+  system?: string;
+  modelIds: string[];
+  rounds: number;
+  /** Synthesizer model, when the answers are synthesized */
+  synthesizer?: string;
+  webResults?: number;
+}
+
+export interface CostEstimate {
+  total: number;
+  promptTokens: number;
+  perModel: Record<string, number>;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    readonly estimate: number,
+    readonly limit: number
+  ) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Rough token count for text (about four characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Estimate a council query's cost before running it: every model answers
+ * the prompt, later rounds add each peer's answer to the context, and the
+ * synthesizer reads every answer of every round
+ */
+export function estimateQueryCost(pricing: IPricingService, plan: QueryPlan): CostEstimate {
+  const promptTokens = estimateTokens(`${plan.system || ''}\n${plan.prompt}`);
+  const seats = plan.modelIds.length;
+  const perModel: Record<string, number> = {};
+  const add = (modelId: string, inputTokens: number) => {
+    perModel[modelId] =
+      (perModel[modelId] || 0) +
+      pricing.calculate(modelId, {
+        promptTokens: inputTokens,
+        completionTokens: ESTIMATED_COMPLETION_TOKENS,
+        webResults: plan.webResults,
+      });
+  };
+
+  for (let round = 1; round <= plan.rounds; round++) {
+    const context =
+      round === 1 ? 0 : seats * ESTIMATED_COMPLETION_TOKENS + CONSENSUS_OVERHEAD_TOKENS;
+    plan.modelIds.forEach((modelId) => add(modelId, promptTokens + context));
+  }
+
+  if (plan.synthesizer) {
+    add(plan.synthesizer, promptTokens + plan.rounds * seats * ESTIMATED_COMPLETION_TOKENS);
+  }
+
+  return {
+    total: Object.values(perModel).reduce((sum, cost) => sum + cost, 0),
+    promptTokens,
+    perModel,
+  };
+}
+
+/**
+ * Total estimated cost of the given responses
+ */
+export function spentOn(responses: (Pick<ModelResponse, 'meta'> | undefined)[]): number {
+  return responses.reduce((sum, response) => sum + (response?.meta?.estimatedCost || 0), 0);
+}
+
+/**
+ * Every call behind a council's answer: each round, plus any synthesis,
+ * verdict and ranking ballots
+ */
+function consensusCalls(result: ConsensusResponse): (Pick<ModelResponse, 'meta'> | undefined)[] {
+  return [
+    ...result.rounds.flat(),
+    result.synthesis,
+    result.verdict,
+    ...(result.ranking?.ballots || []),
+  ];
+}
+
+/**
+ * Total estimated cost of a council's answer: every round, plus any
+ * synthesis, verdict and ranking
+ */
+export function consensusCost(result: ConsensusResponse): number {
+  return spentOn(consensusCalls(result));
+}
+
+/**
+ * Usage of a council's answer. Cost and tokens count every call, as the
+ * budget does; latency is averaged over the elders' answers.
+ */
+export function consensusMetadata(
+  result: ConsensusResponse
+): NonNullable<ConsensusResponse['metadata']> {
+  // Failed calls only carry retry details, not usage
+  const answered = result.rounds.flat().filter((r) => r.meta?.latencyMs !== undefined);
+
+  return {
+    totalCost: consensusCost(result),
+    totalTokens: consensusCalls(result).reduce(
+      (sum, call) => sum + (call?.meta?.totalTokens || 0),
+      0
+    ),
+    averageLatency:
+      answered.length > 0
+        ? answered.reduce((sum, r) => sum + (r.meta?.latencyMs || 0), 0) / answered.length
+        : 0,
+    modelCount: result.rounds[0]?.length || 0,
+  };
+}
+
+interface SpendRecord {
+  date: string;
+  /** Spend by council name */
+  councils: Record<string, number>;
+}
+
+/**
+ * A council's spend today, persisted across runs in the cache directory.
+ * Each council's spend counts only against its own daily limit.
+ */
+export class SpendLedger {
+  constructor(private council = 'default') {}
+
+  private get filePath(): string {
+    return path.join(getCacheDir(), 'spend.json');
+  }
+
+  private today(): string {
+    return new Date().toLocaleDateString('en-CA');
+  }
+
+  private async read(): Promise<SpendRecord> {
+    try {
+      const ledger = JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as Partial<SpendRecord>;
+      if (ledger.date === this.today() && ledger.councils) {
+        return { date: ledger.date, councils: ledger.councils };
+      }
+    } catch {
+      // No spend recorded yet
+    }
+    return { date: this.today(), councils: {} };
+  }
+
+  async spentToday(): Promise<number> {
+    return (await this.read()).councils[this.council] || 0;
+  }
+
+  async record(cost: number): Promise<void> {
+    if (cost <= 0) return;
+
+    const ledger = await this.read();
+    ledger.councils[this.council] = (ledger.councils[this.council] || 0) + cost;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(ledger));
+  }
+}
+
+/**
+ * Enforces a council's per-query and per-day limits for one query: a
+ * pre-flight check against the estimate, then a running check against
+ * actual spend. The ledger holds the council's own daily spend.
+ */
+export class BudgetGuard {
+  private limit = Infinity;
+
+  constructor(
+    private limits: BudgetLimits,
+    private ledger: SpendLedger = new SpendLedger()
+  ) {}
+
+  /**
+   * Refuse the query when today's budget is spent. When the estimate exceeds
+   * the remaining budget, `confirm` may approve it; an approved query is then
+   * held only to the daily limit.
+   */
+  async preflight(
+    estimate: CostEstimate,
+    confirm?: (estimate: number, limit: number) => Promise<boolean>
+  ): Promise<void> {
+    const { maxCostPerQuery, maxCostPerDay } = this.limits;
+    const remainingToday =
+      maxCostPerDay !== undefined
+        ? Math.max(0, maxCostPerDay - (await this.ledger.spentToday()))
+        : Infinity;
+
+    if (remainingToday <= 0) {
+      throw new BudgetExceededError(
+        `Daily budget of $${maxCostPerDay!.toFixed(2)} is already spent`,
+        estimate.total,
+        0
+      );
+    }
+
+    this.limit = Math.min(maxCostPerQuery ?? Infinity, remainingToday);
+    if (estimate.total <= this.limit) {
+      return;
+    }
+
+    if (confirm && (await confirm(estimate.total, this.limit))) {
+      this.limit = remainingToday;
+      return;
+    }
+
+    throw new BudgetExceededError(
+      `Estimated cost $${estimate.total.toFixed(4)} exceeds the budget of $${this.limit.toFixed(4)}`,
+      estimate.total,
+      this.limit
+    );
+  }
+
+  /**
+   * Whether the query may continue after spending `spent`
+   */
+  allows(spent: number): boolean {
+    return spent < this.limit;
+  }
+
+  async record(spent: number): Promise<void> {
+    await this.ledger.record(spent);
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+
+import { ChatSession } from './chat.js';
+import { getSeatIds } from './config.js';
+import { OpenRouterMessage } from './council-client.js';
+import { ICouncilService } from './interfaces.js';
+import { ConsensusResponse, CouncilConfig } from './types.js';
+
+/**
+ * Council service that records the histories it was given and answers with
+ * the first seat only, in one round after any earlier rounds
+ */
+function fakeCouncil(seen: OpenRouterMessage[][][]): ICouncilService {
+  return {
+    queryWithConsensus: (prompt, config, _hooks, { history = [], earlierRounds = [] } = {}) => {
+      seen.push(history.map((messages) => [...messages]));
+      const result: ConsensusResponse = {
+        rounds: [
+          ...earlierRounds,
+          getSeatIds(config.models).map((model, i) =>
+            i === 0
+              ? { model, status: 'success', content: `answer to ${prompt}` }
+              : { model, status: 'error', error: 'Unavailable' }
+          ),
+        ],
+      };
+      return Promise.resolve(result);
+    },
+  } as ICouncilService;
+}
+
+const config: CouncilConfig = { models: ['one', 'two'] };
+
+describe('ChatSession', () => {
+  it('should remember the turns each seat answered and forget them on reset', async () => {
+    const seen: OpenRouterMessage[][][] = [];
+    const session = new ChatSession(fakeCouncil(seen), config);
+
+    await session.ask('first');
+    await session.ask('second');
+
+    expect(seen[0]).toEqual([[], []]);
+    expect(seen[1]).toEqual([
+      [
+        { role: 'user', content: 'first' },
+        { role: 'assistant', content: 'answer to first' },
+      ],
+      [],
+    ]);
+    expect(session.turns.map((turn) => turn.prompt)).toEqual(['first', 'second']);
+
+    session.reset();
+    await session.ask('third');
+    expect(seen[2]).toEqual([[], []]);
+    expect(session.turns).toHaveLength(3);
+  });
+
+  it('should add rounds to a restored turn, remembering only the turns before it', async () => {
+    const seen: OpenRouterMessage[][][] = [];
+    const earlier = new ChatSession(fakeCouncil([]), config);
+    await earlier.ask('first');
+    await earlier.ask('second');
+
+    const session = new ChatSession(fakeCouncil(seen), config);
+    session.restore(earlier.turns);
+    const turn = await session.extend(1);
+
+    expect(turn.prompt).toBe('second');
+    expect(turn.result.rounds).toHaveLength(2);
+    expect(seen[0][0]).toEqual([
+      { role: 'user', content: 'first' },
+      { role: 'assistant', content: 'answer to first' },
+    ]);
+    expect(session.turns).toHaveLength(2);
+  });
+
+  it("should keep the chat's rounds, synthesis and temperature on another council", () => {
+    const session = new ChatSession(fakeCouncil([]), config);
+    session.update({ rounds: 3, defaults: { single: true, temperature: 0 } });
+    session.switchCouncil(
+      { models: ['three'], rounds: 1, defaults: { temperature: 0.9, webMaxResults: 2 } },
+      'research'
+    );
+
+    expect(session.council).toMatchObject({
+      models: ['three'],
+      rounds: 3,
+      defaults: { single: true, temperature: 0, webMaxResults: 2 },
+    });
+  });
+
+  it('should drop debate and vote modes, which a chat does not continue', () => {
+    const session = new ChatSession(fakeCouncil([]), {
+      ...config,
+      mode: 'debate',
+      choices: ['yes', 'no'],
+    });
+    expect(session.council.mode).toBeUndefined();
+    expect(session.council.choices).toBeUndefined();
+  });
+});
@@ -0,0 +1,164 @@
+import { consensusCost } from './budget.js';
+import { OpenRouterMessage } from './council-client.js';
+import { ICouncilService } from './interfaces.js';
+import { ChatTurn, CouncilConfig, CouncilQueryHooks } from './types.js';
+
+/**
+ * Estimated cost of every turn, including synthesis
+ */
+export function transcriptCost(turns: ChatTurn[]): number {
+  return turns.reduce((sum, { result }) => sum + consensusCost(result), 0);
+}
+
+/**
+ * A conversation with a council. Each seat keeps its own history of the
+ * questions and its final answers, so follow-ups reach every elder in context.
+ */
+export class ChatSession {
+  readonly turns: ChatTurn[] = [];
+  private remembered = 0;
+  private config!: CouncilConfig;
+  private councilName?: string;
+
+  constructor(
+    private councilService: ICouncilService,
+    config: CouncilConfig,
+    councilName?: string
+  ) {
+    this.switchCouncil(config, councilName);
+  }
+
+  get council(): CouncilConfig {
+    return this.config;
+  }
+
+  get name(): string | undefined {
+    return this.councilName;
+  }
+
+  /**
+   * Index of the first turn the elders remember
+   */
+  get historyStart(): number {
+    return this.remembered;
+  }
+
+  /**
+   * Talk to another council from the next turn on. Its seats start without
+   * history; the transcript is kept, and so are the chat's rounds, synthesis
+   * and temperature.
+   */
+  switchCouncil(config: CouncilConfig, councilName?: string): void {
+    const current = this.config && {
+      rounds: this.config.rounds,
+      maxRounds: this.config.maxRounds,
+      defaults: {
+        ...config.defaults,
+        single: this.config.defaults?.single,
+        temperature: this.config.defaults?.temperature,
+      },
+    };
+    // A follow-up continues a discussion, which debates and votes don't have
+    this.config = { ...config, ...current, mode: undefined, choices: undefined };
+    this.councilName = councilName;
+    this.reset();
+  }
+
+  /**
+   * Change how the current council answers, keeping the history
+   */
+  update(changes: Partial<CouncilConfig>): void {
+    this.config = {
+      ...this.config,
+      ...changes,
+      defaults: { ...this.config.defaults, ...changes.defaults },
+    };
+  }
+
+  /**
+   * Forget what the elders were told so far
+   */
+  reset(): void {
+    this.remembered = this.turns.length;
+  }
+
+  /**
+   * Pick up a stored conversation, the elders remembering the turns from `historyStart` on
+   */
+  restore(turns: ChatTurn[], historyStart = 0): void {
+    this.turns.push(...turns);
+    this.remembered = historyStart;
+  }
+
+  async ask(prompt: string, hooks: CouncilQueryHooks = {}): Promise<ChatTurn> {
+    const startedAt = new Date();
+    const result = await this.councilService.queryWithConsensus(prompt, this.config, hooks, {
+      history: this.histories(this.turns.slice(this.remembered)),
+    });
+
+    const turn: ChatTurn = {
+      prompt,
+      council: this.councilName,
+      result,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+    };
+    this.turns.push(turn);
+    return turn;
+  }
+
+  /**
+   * Hold `rounds` more consensus rounds on the latest question, replacing its answer
+   */
+  async extend(rounds: number, hooks: CouncilQueryHooks = {}): Promise<ChatTurn> {
+    const turn = this.turns[this.turns.length - 1];
+    if (!turn || this.remembered >= this.turns.length) {
+      throw new Error('The elders do not remember a question to discuss further');
+    }
+
+    const startedAt = Date.now();
+    const earlierRounds = turn.result.rounds;
+    turn.result = await this.councilService.queryWithConsensus(
+      turn.prompt,
+      {
+        ...this.config,
+        rounds: earlierRounds.length + rounds,
+        maxRounds: undefined,
+        convergenceThreshold: undefined,
+      },
+      hooks,
+      { history: this.histories(this.turns.slice(this.remembered, -1)), earlierRounds }
+    );
+    turn.durationMs = (turn.durationMs || 0) + Date.now() - startedAt;
+    return turn;
+  }
+
+  /**
+   * Each seat's questions and final answers over `turns`. Seats that didn't
+   * answer a question leave it out of their history too.
+   */
+  private histories(turns: ChatTurn[]): OpenRouterMessage[][] {
+    return this.config.models.map((_, i) =>
+      turns.flatMap(({ prompt, result }): OpenRouterMessage[] => {
+        const response = result.rounds[result.rounds.length - 1][i];
+        return response && !response.error && response.content
+          ? [
+              { role: 'user', content: prompt },
+              { role: 'assistant', content: response.content },
+            ]
+          : [];
+      })
+    );
+  }
+
+  /**
+   * Estimated cost of every turn so far, including synthesis
+   */
+  get totalCost(): number {
+    return transcriptCost(this.turns);
+  }
+
+  get totalTokens(): number {
+    return this.turns.reduce((sum, { result }) => sum + (result.metadata?.totalTokens || 0), 0);
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+
+import { collectCitations, dedupeCitations, extractCitationsFromBody } from './citations.js';
+
+const annotation = (url: string, title = 'Example') => ({
+  type: 'url_citation',
+  url_citation: { url, title, start_index: 0, end_index: 10 },
+});
+
+describe('Citations', () => {
+  it('should extract citations from a JSON completion body', () => {
+    const body = JSON.stringify({
+      choices: [{ message: { content: 'Answer', annotations: [annotation('https://a.dev')] } }],
+    });
+
+    expect(extractCitationsFromBody(body)).toEqual([
+      { url: 'https://a.dev', title: 'Example', start_index: 0, end_index: 10 },
+    ]);
+  });
+
+  it('should extract citations from a streamed body', () => {
+    const chunk = (delta: unknown) => `data: ${JSON.stringify({ choices: [{ delta }] })}\n\n`;
+    const body =
+      chunk({ content: 'Answer' }) +
+      chunk({ annotations: [annotation('https://b.dev', 'B')] }) +
+      'data: [DONE]\n\n';
+
+    expect(extractCitationsFromBody(body).map((c) => c.url)).toEqual(['https://b.dev']);
+  });
+
+  it('should ignore unparseable bodies', () => {
+    expect(extractCitationsFromBody('not json')).toEqual([]);
+  });
+
+  it('should dedupe sources by normalized URL', () => {
+    const citations = [
+      { url: 'https://a.dev/page', title: 'A', start_index: 0, end_index: 0 },
+      { url: 'https://A.dev/page/#intro', title: 'A again', start_index: 0, end_index: 0 },
+      { url: 'https://b.dev', title: 'B', start_index: 0, end_index: 0 },
+    ];
+
+    expect(dedupeCitations(citations).map((c) => c.title)).toEqual(['A', 'B']);
+  });
+
+  it('should collect sources across responses', () => {
+    const citation = { url: 'https://a.dev', title: 'A', start_index: 0, end_index: 0 };
+    const responses = [
+      { model: 'm1', content: '', citations: [citation] },
+      { model: 'm2', content: '', citations: [citation] },
+      undefined,
+    ];
+
+    expect(collectCitations(responses)).toEqual([citation]);
+  });
+});
@@ -0,0 +1,79 @@
+import type { ModelResponse, UrlCitation } from './council-client.js';
+
+interface RawAnnotation {
+  type?: string;
+  url_citation?: Partial<UrlCitation>;
+}
+
+interface RawChoice {
+  message?: { annotations?: unknown };
+  delta?: { annotations?: unknown };
+}
+
+/**
+ * Parse OpenRouter `url_citation` annotations into citations
+ */
+export function extractUrlCitations(annotations: unknown): UrlCitation[] {
+  if (!Array.isArray(annotations)) {
+    return [];
+  }
+
+  return (annotations as RawAnnotation[])
+    .filter((a) => a?.type === 'url_citation' && typeof a.url_citation?.url === 'string')
+    .map((a) => {
+      const citation = a.url_citation!;
+      return {
+        url: citation.url!,
+        title: citation.title || citation.url!,
+        ...(citation.content ? { content: citation.content } : {}),
+        start_index: citation.start_index ?? 0,
+        end_index: citation.end_index ?? 0,
+      };
+    });
+}
+
+/**
+ * Extract citations from a raw chat completion body, either a JSON response
+ * or a server-sent event stream of chunks
+ */
+export function extractCitationsFromBody(body: string): UrlCitation[] {
+  const payloads = body.trimStart().startsWith('{')
+    ? [body]
+    : body
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trim())
+        .filter((data) => data && data !== '[DONE]');
+
+  return payloads.flatMap((payload) => {
+    try {
+      const parsed = JSON.parse(payload) as { choices?: RawChoice[] };
+      return (parsed.choices || []).flatMap((choice) => [
+        ...extractUrlCitations(choice.message?.annotations),
+        ...extractUrlCitations(choice.delta?.annotations),
+      ]);
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * Remove duplicate sources, keeping the first occurrence of each URL
+ */
+export function dedupeCitations(citations: UrlCitation[]): UrlCitation[] {
+  const seen = new Set<string>();
+  return citations.filter((citation) => {
+    const key = citation.url.replace(/#.*$/, '').replace(/\/+$/, '').toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Collect the unique sources cited by any of the given responses
+ */
+export function collectCitations(responses: (ModelResponse | undefined)[]): UrlCitation[] {
+  return dedupeCitations(responses.flatMap((response) => response?.citations || []));
+}
@@ -8,10 +8,14 @@ import fetch from 'node-fetch';
 // Load environment variables from .env file
 loadEnv();
 
+import { ChatCommand } from './cli/commands/ChatCommand.js';
 import { CouncilsCommand } from './cli/commands/CouncilsCommand.js';
+import { HistoryCommand } from './cli/commands/HistoryCommand.js';
 import { InitCommand } from './cli/commands/InitCommand.js';
 import { ModelsCommand } from './cli/commands/ModelsCommand.js';
 import { QueryCommand } from './cli/commands/QueryCommand.js';
+import { ResumeCommand } from './cli/commands/ResumeCommand.js';
+import { ShowCommand } from './cli/commands/ShowCommand.js';
 import { VerifyCommand } from './cli/commands/VerifyCommand.js';
 import { container } from './container.js';
 
@@ -40,7 +44,9 @@ program
   .description(
     'Council of Elders - Query multiple LLMs through OpenRouter\n\nExamples:\n  coe "What is the capital of France?"              # Query default council\n  coe --model gpt-4o "Explain quantum computing"     # Query single model\n  coe -c research "Latest AI developments"           # Use research council\n  coe --model perplexity/sonar-pro "Current news"   # Use premium Perplexity model'
   )
-  .version('0.3.1');
+  .version('0.3.1')
+  // Subcommands reuse option names like --rounds and --config; theirs must not go to the query
+  .enablePositionalOptions();
 
 // Register all commands
 const initCommand = container.resolve(InitCommand);
@@ -55,6 +61,18 @@ modelsCommand.register(program);
 const verifyCommand = container.resolve(VerifyCommand);
 verifyCommand.register(program);
 
+const chatCommand = container.resolve(ChatCommand);
+chatCommand.register(program);
+
+const historyCommand = container.resolve(HistoryCommand);
+historyCommand.register(program);
+
+const showCommand = container.resolve(ShowCommand);
+showCommand.register(program);
+
+const resumeCommand = container.resolve(ResumeCommand);
+resumeCommand.register(program);
+
 // Set up main query command - delay to avoid loading services during --help/--version
 let queryCommandRegistered = false;
 const registerQueryCommand = () => {
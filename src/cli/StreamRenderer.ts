@@ -0,0 +1,184 @@
+import * as readline from 'readline';
+
+import chalk from 'chalk';
+
+export interface StreamRendererOptions {
+  stream?: NodeJS.WriteStream;
+  /** Lines of each panel kept visible on a TTY */
+  panelHeight?: number;
+  /** Minimum milliseconds between TTY redraws */
+  refreshMs?: number;
+}
+
+/** How a panel's answer ended; seats cut off by first-n, a deadline or cancellation stop mid-answer */
+export type PanelOutcome = 'complete' | 'cancelled' | 'timedOut';
+
+interface Panel {
+  title: string;
+  content: string;
+  pending: string;
+  outcome?: PanelOutcome;
+}
+
+const OUTCOME_MARKERS: Record<Exclude<PanelOutcome, 'complete'>, string> = {
+  cancelled: 'cancelled',
+  timedOut: 'timed out',
+};
+
+/**
+ * Renders elder answers as they stream in. On a TTY each elder gets a stacked
+ * panel showing the tail of its answer; otherwise completed lines are written
+ * interleaved with an `[elder]` prefix. Output goes to stderr by default so the
+ * final result on stdout is the same with or without streaming.
+ */
+export class StreamRenderer {
+  private stream: NodeJS.WriteStream;
+  private panelHeight: number;
+  private refreshMs: number;
+  private panels = new Map<string, Panel>();
+  private renderedLines = 0;
+  private lastRender = 0;
+  private renderTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: StreamRendererOptions = {}) {
+    this.stream = options.stream || process.stderr;
+    this.panelHeight = options.panelHeight || 6;
+    this.refreshMs = options.refreshMs || 50;
+  }
+
+  private get isTTY(): boolean {
+    return Boolean(this.stream.isTTY);
+  }
+
+  /**
+   * Start (or restart, for a new round) the panel for a key
+   */
+  start(key: string, title: string): void {
+    const existing = this.panels.get(key);
+    if (existing && !this.isTTY) {
+      this.flushLine(existing);
+    }
+
+    this.panels.set(key, { title, content: '', pending: '' });
+    if (!this.isTTY) {
+      this.stream.write(chalk.bold.green(`── ${title} ──\n`));
+    }
+    this.scheduleRender();
+  }
+
+  append(key: string, text: string, title: string = key): void {
+    if (!this.panels.has(key)) {
+      this.start(key, title);
+    }
+    const panel = this.panels.get(key)!;
+    panel.content += text;
+
+    if (this.isTTY) {
+      this.scheduleRender();
+      return;
+    }
+
+    panel.pending += text;
+    const lines = panel.pending.split('\n');
+    panel.pending = lines.pop() || '';
+    lines.forEach((line) => this.stream.write(`${chalk.gray(`[${panel.title}]`)} ${line}\n`));
+  }
+
+  /**
+   * Close a panel. A cancelled or timed-out answer is marked as cut off.
+   */
+  finish(key: string, outcome: PanelOutcome = 'complete'): void {
+    const panel = this.panels.get(key);
+    if (!panel) return;
+
+    panel.outcome = outcome;
+    if (this.isTTY) {
+      this.scheduleRender();
+      return;
+    }
+    this.flushLine(panel);
+    if (outcome !== 'complete') {
+      this.stream.write(chalk.yellow(`[${panel.title}] ${OUTCOME_MARKERS[outcome]}\n`));
+    }
+  }
+
+  /**
+   * Stop rendering and clear the live panels so final output starts on a clean screen
+   */
+  stop(): void {
+    if (this.renderTimer) {
+      clearTimeout(this.renderTimer);
+      this.renderTimer = null;
+    }
+
+    if (this.isTTY) {
+      this.clear();
+    } else {
+      this.panels.forEach((panel) => this.flushLine(panel));
+    }
+    this.panels.clear();
+  }
+
+  private flushLine(panel: Panel): void {
+    if (panel.pending) {
+      this.stream.write(`${chalk.gray(`[${panel.title}]`)} ${panel.pending}\n`);
+      panel.pending = '';
+    }
+  }
+
+  private scheduleRender(): void {
+    if (!this.isTTY || this.renderTimer) return;
+
+    const wait = Math.max(0, this.refreshMs - (Date.now() - this.lastRender));
+    this.renderTimer = setTimeout(() => {
+      this.renderTimer = null;
+      this.render();
+    }, wait);
+  }
+
+  private clear(): void {
+    if (this.renderedLines > 0) {
+      readline.moveCursor(this.stream, 0, -this.renderedLines);
+      readline.clearScreenDown(this.stream);
+      this.renderedLines = 0;
+    }
+  }
+
+  private render(): void {
+    const width = Math.max(20, (this.stream.columns || 80) - 2);
+    // Shrink panels so the whole stack fits on screen and can be redrawn in place
+    const rows = this.stream.rows || 24;
+    const height = Math.max(
+      1,
+      Math.min(this.panelHeight, Math.floor((rows - 1) / Math.max(1, this.panels.size)) - 1)
+    );
+    const output: string[] = [];
+
+    this.panels.forEach((panel) => {
+      const status =
+        panel.outcome === 'complete'
+          ? chalk.green('✓')
+          : panel.outcome
+            ? chalk.yellow(`⏹ ${OUTCOME_MARKERS[panel.outcome]}`)
+            : chalk.yellow('…');
+      output.push(chalk.bold.green(`📜 ${panel.title} ${status}`));
+
+      const wrapped = panel.content
+        .split('\n')
+        .flatMap((line) =>
+          line.length === 0 ? [''] : (line.match(new RegExp(`.{1,${width}}`, 'g')) ?? [])
+        );
+      const visible = wrapped.slice(-height);
+      for (let i = 0; i < height; i++) {
+        output.push(chalk.gray('│ ') + (visible[i] ?? ''));
+      }
+    });
+
+    this.clear();
+    if (output.length > 0) {
+      this.stream.write(output.join('\n') + '\n');
+    }
+    this.renderedLines = output.length;
+    this.lastRender = Date.now();
+  }
+}
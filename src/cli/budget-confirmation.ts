@@ -0,0 +1,27 @@
+import Enquirer from 'enquirer';
+import { Ora } from 'ora';
+
+/**
+ * Ask before running a query estimated to exceed the budget. Without a
+ * terminal to ask on, the query is refused.
+ */
+export function createBudgetConfirmation(
+  spinner?: Ora
+): (estimate: number, limit: number) => Promise<boolean> {
+  return async (estimate, limit) => {
+    if (!process.stdin.isTTY || !process.stderr.isTTY) {
+      return false;
+    }
+
+    spinner?.stop();
+    const { proceed } = (await new Enquirer().prompt({
+      type: 'confirm',
+      name: 'proceed',
+      message: `Estimated cost $${estimate.toFixed(4)} exceeds the $${limit.toFixed(4)} budget. Run anyway?`,
+      initial: false,
+    })) as { proceed: boolean };
+    if (proceed) spinner?.start();
+
+    return proceed;
+  };
+}
@@ -0,0 +1,332 @@
+import 'reflect-metadata';
+import * as readline from 'readline';
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import ora, { Ora } from 'ora';
+import { injectable, inject } from 'tsyringe';
+
+import { BudgetExceededError } from '../../budget.js';
+import { ChatSession } from '../../chat.js';
+import { ICouncilService, IConfigService, ISessionService } from '../../interfaces.js';
+import { ResponseBuilder } from '../../response-builder.js';
+import { ExportService } from '../../services/ExportService.js';
+import { ChatTurn, CouncilQueryHooks, SessionRecord } from '../../types.js';
+
+interface ChatOptions {
+  council?: string;
+  config?: string;
+  rounds?: number;
+  single?: boolean;
+  showModels?: boolean;
+  meta?: boolean;
+  temperature?: number;
+}
+
+const HELP = `Commands:
+  /council [name]            Switch council, or list councils (starts a fresh conversation)
+  /synthesis                 Toggle a single synthesized answer per turn
+  /rounds <N>                Consensus rounds per turn
+  /cost                      Show the session's tokens and estimated cost
+  /export <format> [path]    Export the transcript (markdown, json, txt)
+  /clear                     Forget the conversation so far
+  /help                      Show this help
+  /exit                      Leave the chat`;
+
+/**
+ * Read the chat's input a line at a time, asking with `question`. Lines that
+ * arrive before they are asked for, as when input is piped, wait their turn.
+ * Resolves undefined once input ends.
+ */
+function createLineReader(
+  rl: readline.Interface
+): (question: string) => Promise<string | undefined> {
+  const lines: string[] = [];
+  const waiting: ((line: string | undefined) => void)[] = [];
+  let closed = false;
+
+  rl.on('line', (line) => {
+    const next = waiting.shift();
+    if (next) next(line);
+    else lines.push(line);
+  });
+  rl.on('close', () => {
+    closed = true;
+    waiting.splice(0).forEach((resolve) => resolve(undefined));
+  });
+
+  return (question) => {
+    rl.setPrompt(question);
+    rl.prompt();
+    if (lines.length > 0 || closed) {
+      return Promise.resolve(lines.shift());
+    }
+    return new Promise((resolve) => waiting.push(resolve));
+  };
+}
+
+@injectable()
+export class ChatCommand {
+  constructor(
+    @inject('ICouncilService') private councilService: ICouncilService,
+    @inject('IConfigService') private configService: IConfigService,
+    @inject('ISessionService') private sessionService: ISessionService,
+    private exportService: ExportService
+  ) {}
+
+  register(program: Command): void {
+    program
+      .command('chat')
+      .description(
+        'Talk with the council over several turns; each elder remembers the conversation'
+      )
+      .option('-c, --council <name>', 'Use a specific council configuration')
+      .option('-r, --rounds <N>', 'Consensus rounds per turn (default: from config or 1)', parseInt)
+      .option('-S, --single', 'Synthesize each turn into a single unified answer')
+      .option('-s, --show-models', 'Show model identities (hidden by default)')
+      .option('-m, --meta', 'Include metadata (tokens, cost, latency)')
+      .option('-t, --temperature <temp>', 'Temperature for responses (0-1)', parseFloat)
+      .option('--config <path>', 'Path to config file (overrides default config discovery)')
+      .action(async (options: ChatOptions) => {
+        try {
+          await this.run(options);
+        } catch (error) {
+          console.error(chalk.red('Error:'), error);
+          process.exit(1);
+        }
+      });
+  }
+
+  private async run(options: ChatOptions): Promise<void> {
+    const config = await this.configService.loadConfig(options.council, options.config);
+    const session = new ChatSession(
+      this.councilService,
+      config,
+      options.council || this.configService.getDefaultCouncil()
+    );
+    session.update({
+      rounds: options.rounds || config.rounds || 1,
+      defaults: {
+        single: options.single || config.defaults?.single || false,
+        temperature: options.temperature ?? config.defaults?.temperature,
+      },
+    });
+    if (config.mode === 'debate' || config.choices) {
+      console.log(chalk.yellow('This council debates or votes; the chat discusses instead.'));
+    }
+
+    const record = this.sessionService.create(session.council, session.name);
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    const readLine = createLineReader(rl);
+
+    console.log(
+      chalk.bold.cyan(
+        `\n🧙 Council chat - ${session.name || 'default'} (${session.council.models.length} elders)`
+      )
+    );
+    console.log(chalk.gray('Type /help for commands, /exit to leave.\n'));
+
+    for (;;) {
+      const line = (await readLine(chalk.bold('you> ')))?.trim();
+      if (line === undefined) break; // Input ended, e.g. Ctrl+D
+      if (!line) continue;
+
+      if (line.startsWith('/')) {
+        const [command, ...args] = line.slice(1).split(/\s+/);
+        if (command === 'exit' || command === 'quit') break;
+        await this.runSlashCommand(command, args, session, options);
+        continue;
+      }
+
+      const spinner = ora({ text: 'Consulting the elders...', discardStdin: false }).start();
+      let turn: ChatTurn;
+      try {
+        turn = await session.ask(line, this.createHooks(session, readLine, spinner));
+      } catch (error) {
+        spinner.stop();
+        if (error instanceof BudgetExceededError) {
+          console.error(chalk.red('Refused:'), error.message);
+        } else {
+          console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+        }
+        continue;
+      }
+      spinner.stop();
+      this.printTurn(turn, session, options);
+      await this.saveSession(record, session);
+    }
+
+    rl.close();
+    if (session.turns.length > 0) {
+      const saved = await this.saveSession(record, session);
+      console.log(
+        chalk.gray(
+          `\n${session.turns.length} ${session.turns.length === 1 ? 'turn' : 'turns'}, est. $${session.totalCost.toFixed(4)}${saved ? ` - session ${record.id}` : ''}`
+        )
+      );
+    }
+  }
+
+  private async runSlashCommand(
+    command: string,
+    args: string[],
+    session: ChatSession,
+    options: ChatOptions
+  ): Promise<void> {
+    switch (command) {
+      case 'help':
+        console.log(HELP);
+        return;
+
+      case 'council': {
+        const councils = this.configService.getAllCouncils();
+        const [name] = args;
+        if (!name) {
+          councils.forEach((council) =>
+            console.log(`${council === session.name ? '* ' : '  '}${council}`)
+          );
+          return;
+        }
+        if (!councils.includes(name)) {
+          console.error(chalk.red(`Unknown council: ${name}`));
+          return;
+        }
+        session.switchCouncil(await this.configService.loadConfig(name, options.config), name);
+        console.log(chalk.gray(`Now talking to ${name} (${session.council.models.length} elders)`));
+        return;
+      }
+
+      case 'synthesis': {
+        const single = !session.council.defaults?.single;
+        session.update({ defaults: { single } });
+        console.log(chalk.gray(`Synthesis ${single ? 'on' : 'off'}`));
+        return;
+      }
+
+      case 'rounds': {
+        const rounds = parseInt(args[0], 10);
+        if (!(rounds >= 1 && rounds <= 10)) {
+          console.error(chalk.red('Usage: /rounds <1-10>'));
+          return;
+        }
+        session.update({ rounds, maxRounds: undefined });
+        console.log(chalk.gray(`${rounds} ${rounds === 1 ? 'round' : 'rounds'} per turn`));
+        return;
+      }
+
+      case 'cost':
+        console.log(
+          chalk.gray(
+            `${session.turns.length} turns, ${session.totalTokens} tokens, est. $${session.totalCost.toFixed(4)}`
+          )
+        );
+        return;
+
+      case 'export': {
+        const [format, outputPath] = args;
+        if (!format) {
+          console.error(chalk.red('Usage: /export <format> [path]'));
+          return;
+        }
+        try {
+          await this.exportService.exportTranscript(session.turns, {
+            format,
+            outputPath,
+            showModels: options.showModels,
+            synthesized: session.council.defaults?.single,
+          });
+        } catch (error) {
+          console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+        }
+        return;
+      }
+
+      case 'clear':
+        session.reset();
+        console.log(chalk.gray('The elders have forgotten the conversation'));
+        return;
+
+      default:
+        console.error(chalk.red(`Unknown command: /${command}`) + chalk.gray(' (try /help)'));
+    }
+  }
+
+  /**
+   * Keep the conversation so far in the session history, as it stands with
+   * the current council
+   */
+  private async saveSession(record: SessionRecord, session: ChatSession): Promise<boolean> {
+    Object.assign(record, {
+      council: session.name,
+      config: session.council,
+      turns: session.turns,
+      historyStart: session.historyStart,
+    });
+    try {
+      return await this.sessionService.save(record);
+    } catch (error) {
+      console.error(
+        chalk.yellow('⚠ Could not save the session:'),
+        error instanceof Error ? error.message : error
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Report progress on one spinner, since per-elder spinners would fight the
+   * prompt, and confirm budget overruns on the chat's own prompt
+   */
+  private createHooks(
+    session: ChatSession,
+    readLine: (question: string) => Promise<string | undefined>,
+    spinner: Ora
+  ): CouncilQueryHooks {
+    const seats = session.council.models.length;
+    const answered = new Map<number, number>();
+
+    return {
+      onProgress: (round, _model, status) => {
+        if (status === 'querying') return;
+        answered.set(round, (answered.get(round) || 0) + 1);
+        spinner.text = `Round ${round} - ${answered.get(round)} of ${seats} elders answered`;
+      },
+      confirmBudget: async (estimate, limit) => {
+        spinner.stop();
+        const answer = await readLine(
+          `Estimated cost $${estimate.toFixed(4)} exceeds the $${limit.toFixed(4)} budget. Run anyway? (y/N) `
+        );
+        const proceed = /^y(es)?$/i.test(answer?.trim() || '');
+        if (proceed) spinner.start();
+        return proceed;
+      },
+    };
+  }
+
+  private printTurn(turn: ChatTurn, session: ChatSession, options: ChatOptions): void {
+    const { result } = turn;
+    const builder = new ResponseBuilder({
+      showMeta: options.meta || false,
+      showModels: options.showModels || false,
+    });
+    const finalRound = result.rounds[result.rounds.length - 1];
+
+    if (result.ranking) {
+      console.log(builder.buildRanking(result.ranking, finalRound));
+    } else if (session.council.defaults?.single && result.synthesis) {
+      console.log(builder.format([result.synthesis], 1));
+    } else {
+      console.log(builder.format(finalRound, result.rounds.length));
+    }
+
+    if (result.convergedAtRound) {
+      console.log(chalk.green(`✓ Consensus reached in round ${result.convergedAtRound}`));
+    }
+    if (result.stopped === 'budget') {
+      console.log(
+        chalk.yellow(`⚠ Stopped: budget limit reached after round ${result.rounds.length}`)
+      );
+    }
+    console.log();
+  }
+}
@@ -41,6 +41,12 @@ export class CouncilsCommand {
             console.log(chalk.cyan(`${name}${isDefault ? ' (default)' : ''}`));
             console.log(`  Models: ${modelCount}`);
             console.log(`  Rounds: ${rounds}`);
+            if (typedCouncil.mode === 'debate') {
+              console.log(`  Mode: debate`);
+            }
+            if (typedCouncil.choices) {
+              console.log(`  Vote: ${typedCouncil.choices.join(' / ')}`);
+            }
             if (typedCouncil.system) {
               console.log(`  System: ${typedCouncil.system.substring(0, 50)}...`);
             }
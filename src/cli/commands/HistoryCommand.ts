@@ -0,0 +1,72 @@
+import 'reflect-metadata';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { injectable, inject } from 'tsyringe';
+
+import { transcriptCost } from '../../chat.js';
+import { ISessionService } from '../../interfaces.js';
+
+interface HistoryOptions {
+  limit: number;
+  json?: boolean;
+}
+
+@injectable()
+export class HistoryCommand {
+  constructor(@inject('ISessionService') private sessionService: ISessionService) {}
+
+  register(program: Command): void {
+    program
+      .command('history')
+      .description('List past sessions, newest first')
+      .argument('[search...]', 'Only sessions whose council or questions mention this text')
+      .option('-n, --limit <N>', 'Number of sessions to list', parseInt, 20)
+      .option('-j, --json', 'Output as JSON instead of plain text')
+      .action(async (search: string[], options: HistoryOptions) => {
+        try {
+          const sessions = (await this.sessionService.list(search.join(' ') || undefined)).slice(
+            0,
+            options.limit
+          );
+
+          if (options.json) {
+            console.log(
+              JSON.stringify(
+                sessions.map((session) => ({
+                  id: session.id,
+                  createdAt: session.createdAt,
+                  updatedAt: session.updatedAt,
+                  council: session.council || null,
+                  prompt: session.turns[0]?.prompt || null,
+                  turns: session.turns.length,
+                  cost: transcriptCost(session.turns),
+                })),
+                null,
+                2
+              )
+            );
+            return;
+          }
+
+          if (sessions.length === 0) {
+            console.log(chalk.yellow('No sessions found.'));
+            return;
+          }
+
+          sessions.forEach((session) => {
+            const date = new Date(session.createdAt).toLocaleString();
+            const turns = `${session.turns.length} ${session.turns.length === 1 ? 'turn' : 'turns'}`;
+            const prompt = (session.turns[0]?.prompt || '').replace(/\s+/g, ' ');
+            console.log(
+              `${chalk.cyan(session.id)}  ${chalk.gray(date)}  ${session.council || '-'}  ` +
+                chalk.gray(`${turns}, $${transcriptCost(session.turns).toFixed(4)}`)
+            );
+            console.log(`  ${prompt.length > 70 ? `${prompt.slice(0, 70)}...` : prompt}`);
+          });
+        } catch (error) {
+          console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+          process.exit(1);
+        }
+      });
+  }
+}
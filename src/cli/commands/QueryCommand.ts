@@ -1,59 +1,47 @@
 import 'reflect-metadata';
-import * as fs from 'fs/promises';
-import * as path from 'path';
-
 import chalk from 'chalk';
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import ora from 'ora';
 import { injectable, inject } from 'tsyringe';
 
+import { BudgetExceededError } from '../../budget.js';
+import { getModelId, getSeatIds } from '../../config.js';
+import { convergenceEnabled, maxRoundsFor } from '../../convergence.js';
 import { ModelResponse } from '../../council-client.js';
-import { ICouncilService, IConfigService } from '../../interfaces.js';
-import { ResponseBuilder } from '../../response-builder.js';
+import { ICouncilService, IConfigService, ISessionService } from '../../interfaces.js';
+import {
+  QUERY_OPTIONS,
+  appendFileContents,
+  applyQueryOptions,
+  cacheMode,
+  isSingleRound,
+} from '../../query-options.js';
+import { DEFAULT_ELDER_NAMES, ResponseBuilder } from '../../response-builder.js';
 import { ExportService } from '../../services/ExportService.js';
-import { CliOptions, CouncilConfig, ConsensusResponse } from '../../types.js';
+import { CliOptions, CouncilConfig, ConsensusResponse, CouncilQueryHooks } from '../../types.js';
+import { createBudgetConfirmation } from '../budget-confirmation.js';
+import { StreamRenderer } from '../StreamRenderer.js';
 
 @injectable()
 export class QueryCommand {
   constructor(
     @inject('ICouncilService') private councilService: ICouncilService,
     @inject('IConfigService') private configService: IConfigService,
+    @inject('ISessionService') private sessionService: ISessionService,
     private exportService: ExportService
   ) {}
 
   register(program: Command): void {
-    program
-      .argument('[prompt...]', 'The prompt to send to the council')
-      .option(
-        '-r, --rounds <N>',
-        'Number of consensus rounds (default: from config or 1)',
-        parseInt
-      )
-      .option('-j, --json', 'Output as JSON instead of plain text')
-      .option('-m, --meta', 'Include metadata (tokens, cost, latency)')
-      .option('-s, --show-models', 'Show model identities (hidden by default)')
-      .option('-S, --single', 'Synthesize all responses into a single unified answer')
-      .option('-t, --temperature <temp>', 'Temperature for responses (0-1)', parseFloat, 0.7)
-      .option('-f, --files <paths...>', 'Files to append to the prompt')
-      .option('-c, --council <name>', 'Use a specific council configuration')
-      .option('--model <model>', 'Query a single model instead of a council')
-      .option('-n, --first-n <count>', 'Only use the first N models to respond', parseInt)
-      .option('-e, --export <format>', 'Export conversation to file (markdown, json, txt)')
-      .option('-w, --web', 'Enable web search for all models')
-      .option('--web-max-results <N>', 'Maximum web search results (default: 5)', parseInt)
-      .option(
-        '--web-context <size>',
-        'Web search context size for native search (low, medium, high)'
-      )
-      .option(
-        '--time-limit <seconds>',
-        'Time limit per model per round (filters out slower models)',
-        parseFloat
-      )
-      .option('--config <path>', 'Path to config file (overrides default config discovery)')
-      .action(async (promptParts: string[], options: CliOptions) => {
-        await this.execute(promptParts, options);
-      });
+    program.argument('[prompt...]', 'The prompt to send to the council');
+    QUERY_OPTIONS.forEach((definition) => {
+      const option = new Option(definition.flags, definition.description);
+      if (definition.parse) option.argParser(definition.parse);
+      if (definition.defaultValue !== undefined) option.default(definition.defaultValue);
+      program.addOption(option);
+    });
+    program.action(async (promptParts: string[], options: CliOptions) => {
+      await this.execute(promptParts, options);
+    });
   }
 
   private async execute(promptParts: string[], options: CliOptions): Promise<void> {
@@ -66,7 +54,12 @@ export class QueryCommand {
 
     // Append file contents if --files option is provided
     if (options.files && options.files.length > 0) {
-      prompt = await this.appendFileContents(prompt, options.files);
+      try {
+        prompt = await appendFileContents(prompt, options.files);
+      } catch (error) {
+        console.error(chalk.red(error instanceof Error ? error.message : error));
+        process.exit(1);
+      }
     }
 
     // Load configuration
@@ -88,77 +81,60 @@ export class QueryCommand {
 
     // Handle single model mode
     if (options.model) {
-      await this.querySingleModel(prompt, options.model, options);
+      await this.querySingleModel(prompt, options.model, options, config);
       return;
     }
 
     // Apply options to config
-    const updatedConfig = {
-      ...config,
-      rounds: options.rounds || config.rounds || 1,
-      defaults: {
-        ...config.defaults,
-        temperature: options.temperature || config.defaults?.temperature || 0.7,
-        firstN: options.firstN || config.defaults?.firstN,
-        single: options.single || config.defaults?.single || false,
-        web: options.web !== undefined ? options.web : config.defaults?.web || false,
-        webMaxResults: options.webMaxResults || config.defaults?.webMaxResults || 5,
-        webContext: options.webContext || config.defaults?.webContext,
-        timeLimit: options.timeLimit || config.defaults?.timeLimit,
-      },
-    };
+    const updatedConfig = applyQueryOptions(config, options);
 
-    // Execute query
-    if (updatedConfig.rounds === 1) {
+    if (isSingleRound(updatedConfig)) {
       await this.executeSingleRound(prompt, updatedConfig, options);
     } else {
       await this.executeMultiRound(prompt, updatedConfig, options);
     }
   }
 
-  private async appendFileContents(prompt: string, files: string[]): Promise<string> {
-    const fileContents: string[] = [];
-
-    for (const filePath of files) {
-      try {
-        const content = await fs.readFile(filePath, 'utf-8');
-        const fileName = path.basename(filePath);
-        fileContents.push(`\n\n### ${fileName}\n\`\`\`\n${content}\n\`\`\``);
-      } catch (error) {
-        console.error(chalk.red(`Error reading file ${filePath}:`), error);
-        process.exit(1);
-      }
-    }
-
-    if (fileContents.length > 0) {
-      prompt += '\n\n## Attached Files:' + fileContents.join('');
-    }
-
-    return prompt;
-  }
-
   private async querySingleModel(
     prompt: string,
     modelId: string,
-    options: CliOptions
+    options: CliOptions,
+    council: CouncilConfig
   ): Promise<void> {
-    const spinner = ora(`Querying ${modelId}...`).start();
+    const renderer = options.stream ? new StreamRenderer() : null;
+    const spinner = ora(`Querying ${modelId}...`);
+    if (!renderer) spinner.start();
+
+    // A model that sits on the council keeps its seat's system prompt; seats
+    // sharing a model are picked by seat ID, e.g. `openai/gpt-4o#securityExpert`
+    const seat =
+      council.models[getSeatIds(council.models).indexOf(modelId)] ??
+      council.models.find((m) => getModelId(m) === modelId);
 
     // Create a minimal config for single model
     const singleModelConfig = {
-      models: [modelId],
+      models: [seat ?? modelId],
       system: 'You are a helpful AI assistant.',
+      personas: council.personas,
       defaults: {
-        temperature: options.temperature || 0.7,
+        temperature: options.temperature ?? 0.7,
         web: options.web || false,
         webMaxResults: options.webMaxResults || 5,
         webContext: options.webContext,
         timeLimit: options.timeLimit,
+        roundTimeLimit: options.roundTimeLimit,
+        cache: cacheMode(options) ?? council.defaults?.cache,
       },
     };
 
+    const startedAt = new Date();
     try {
-      const responses = await this.councilService.query(prompt, singleModelConfig);
+      const responses = await this.councilService.query(prompt, singleModelConfig, {
+        ...(renderer &&
+          this.createStreamHooks(renderer, getSeatIds(singleModelConfig.models), options)),
+        confirmBudget: createBudgetConfirmation(spinner),
+      });
+      renderer?.stop();
       spinner.stop();
 
       const builder = new ResponseBuilder({
@@ -167,6 +143,7 @@ export class QueryCommand {
         showModels: options.showModels || false,
       });
       console.log(builder.format(responses, 1));
+      await this.recordSession(prompt, singleModelConfig, { rounds: [responses] }, startedAt);
 
       // Check if the model failed and exit with error code (but not in JSON mode)
       if (responses.length > 0 && responses[0].error && !options.json) {
@@ -179,8 +156,9 @@ export class QueryCommand {
         await this.exportResults(prompt, responses, options);
       }
     } catch (error) {
+      renderer?.stop();
       spinner.stop();
-      console.error(chalk.red('Error:'), error);
+      this.reportError(error);
       process.exit(1);
     }
   }
@@ -193,10 +171,17 @@ export class QueryCommand {
     const modelCount = config.models.length;
     const firstN = config.defaults?.firstN;
     const spinnerText = `Consulting ${modelCount} elders${firstN ? ` (first ${firstN} to respond)` : ''}...`;
-    const spinner = ora(spinnerText).start();
+    const renderer = options.stream ? new StreamRenderer() : null;
+    const spinner = ora(spinnerText);
+    if (!renderer) spinner.start();
 
+    const startedAt = new Date();
     try {
-      const responses = await this.councilService.query(prompt, config);
+      const responses = await this.councilService.query(prompt, config, {
+        ...(renderer && this.createStreamHooks(renderer, getSeatIds(config.models), options)),
+        confirmBudget: createBudgetConfirmation(spinner),
+      });
+      renderer?.stop();
       spinner.stop();
 
       // Check if all models failed
@@ -210,6 +195,13 @@ export class QueryCommand {
         });
         console.log(builder.format(responses, 1));
       }
+      await this.recordSession(
+        prompt,
+        config,
+        { rounds: [responses] },
+        startedAt,
+        options.council || this.configService.getDefaultCouncil()
+      );
 
       // Exit with error code if all models failed (but not in JSON mode)
       if (allFailed && !options.json) {
@@ -222,8 +214,9 @@ export class QueryCommand {
         await this.exportResults(prompt, responses, options);
       }
     } catch (error) {
+      renderer?.stop();
       spinner.stop();
-      console.error(chalk.red('Error:'), error);
+      this.reportError(error);
       process.exit(1);
     }
   }
@@ -233,28 +226,66 @@ export class QueryCommand {
     config: CouncilConfig,
     options: CliOptions
   ): Promise<void> {
-    console.log(chalk.bold.cyan(`\n🧙 Council of Elders - ${config.rounds} Rounds\n`));
+    const debate = config.mode === 'debate';
+    const maxRounds = maxRoundsFor(config);
+    const upTo = !debate && convergenceEnabled(config) ? 'Up to ' : '';
+    const title = debate
+      ? '⚖️  Council Debate'
+      : config.choices
+        ? '🗳  Council Vote'
+        : '🧙 Council of Elders';
+    console.log(
+      chalk.bold.cyan(`\n${title} - ${upTo}${maxRounds} Round${maxRounds === 1 ? '' : 's'}\n`)
+    );
+
+    const renderer = options.stream ? new StreamRenderer() : null;
+    const startedAt = new Date();
 
     try {
-      const result = await this.councilService.queryWithConsensus(prompt, config);
+      const result = await this.councilService.queryWithConsensus(prompt, config, {
+        ...(renderer && this.createStreamHooks(renderer, getSeatIds(config.models), options)),
+        confirmBudget: createBudgetConfirmation(),
+      });
+      renderer?.stop();
 
-      // Display results
-      const finalResponses = result.rounds[result.rounds.length - 1];
+      // Display results; the judge's verdict follows the debaters' final round
+      const output = new ResponseBuilder({
+        format: options.json ? 'json' : 'text',
+        showMeta: options.meta || false,
+        showModels: options.showModels || false,
+      }).buildConsensus(result, config.defaults?.single);
+      if (output) {
+        console.log(output);
+      }
+      await this.recordSession(
+        prompt,
+        config,
+        result,
+        startedAt,
+        options.council || this.configService.getDefaultCouncil()
+      );
+
+      if (result.convergedAtRound) {
+        console.error(
+          chalk.green(
+            `\n✓ ${result.vote ? 'Votes settled' : 'Consensus reached'} in round ${result.convergedAtRound} of ${maxRounds}; remaining rounds skipped`
+          )
+        );
+      }
 
-      if (!config.defaults?.single) {
-        const builder = new ResponseBuilder({
-          format: options.json ? 'json' : 'text',
-          showMeta: options.meta || false,
-          showModels: options.showModels || false,
-        });
-        console.log(builder.format(finalResponses, config.rounds));
-      } else if (result.synthesis) {
-        const builder = new ResponseBuilder({
-          format: options.json ? 'json' : 'text',
-          showMeta: options.meta || false,
-          showModels: options.showModels || false,
-        });
-        console.log(builder.format([result.synthesis], 1));
+      if (result.stopped === 'budget') {
+        const skipped = debate
+          ? !result.verdict && ', before the verdict'
+          : config.choices
+            ? undefined
+            : config.defaults?.rank
+              ? !result.ranking && ', before ranking'
+              : config.defaults?.single && !result.synthesis && ', before synthesis';
+        console.error(
+          chalk.yellow(
+            `\n⚠ Stopped: budget limit reached after round ${result.rounds.length} of ${maxRounds}${skipped || ''}`
+          )
+        );
       }
 
       // Show metadata if requested
@@ -272,11 +303,79 @@ export class QueryCommand {
         await this.exportConsensusResults(prompt, result, options, config);
       }
     } catch (error) {
-      console.error(chalk.red('Error:'), error);
+      renderer?.stop();
+      this.reportError(error);
       process.exit(1);
     }
   }
 
+  /**
+   * Keep the run in the session history. Failing to save it is reported but
+   * doesn't fail the query.
+   */
+  private async recordSession(
+    prompt: string,
+    config: CouncilConfig,
+    result: ConsensusResponse,
+    startedAt: Date,
+    council?: string
+  ): Promise<void> {
+    try {
+      const session = this.sessionService.create(config, council);
+      session.turns.push({
+        prompt,
+        council,
+        result,
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+      });
+      if ((await this.sessionService.save(session)) && process.stderr.isTTY) {
+        console.error(
+          chalk.gray(`\nSession ${session.id} - coe resume ${session.id} "<follow-up>"`)
+        );
+      }
+    } catch (error) {
+      console.error(
+        chalk.yellow('⚠ Could not save the session:'),
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  private reportError(error: unknown): void {
+    if (error instanceof BudgetExceededError) {
+      console.error(chalk.red('Refused:'), error.message);
+    } else {
+      console.error(chalk.red('Error:'), error);
+    }
+  }
+
+  /**
+   * Route streamed tokens to per-elder panels, labelled the same way as the final output
+   */
+  private createStreamHooks(
+    renderer: StreamRenderer,
+    modelIds: string[],
+    options: CliOptions
+  ): CouncilQueryHooks {
+    const label = (model: string) =>
+      options.showModels
+        ? model
+        : DEFAULT_ELDER_NAMES[Math.max(0, modelIds.indexOf(model)) % DEFAULT_ELDER_NAMES.length];
+
+    return {
+      onProgress: (round, model, status) => {
+        if (status === 'querying') {
+          renderer.start(model, round > 1 ? `${label(model)} (Round ${round})` : label(model));
+        } else if (status === 'complete' || status === 'cancelled' || status === 'timedOut') {
+          renderer.finish(model, status);
+        }
+      },
+      onChunk: (text, model) => renderer.append(model, text, label(model)),
+      onSynthesisChunk: (text) => renderer.append('synthesis', text, 'Synthesis'),
+    };
+  }
+
   private async exportResults(
     prompt: string,
     responses: ModelResponse[],
@@ -0,0 +1,111 @@
+import 'reflect-metadata';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { injectable, inject } from 'tsyringe';
+
+import { BudgetExceededError } from '../../budget.js';
+import { ChatSession } from '../../chat.js';
+import { ICouncilService, IConfigService, ISessionService } from '../../interfaces.js';
+import { ResponseBuilder } from '../../response-builder.js';
+import { ChatTurn } from '../../types.js';
+import { createBudgetConfirmation } from '../budget-confirmation.js';
+
+interface ResumeOptions {
+  rounds?: number;
+  single?: boolean;
+  json?: boolean;
+  meta?: boolean;
+  showModels?: boolean;
+  config?: string;
+}
+
+@injectable()
+export class ResumeCommand {
+  constructor(
+    @inject('ICouncilService') private councilService: ICouncilService,
+    @inject('IConfigService') private configService: IConfigService,
+    @inject('ISessionService') private sessionService: ISessionService
+  ) {}
+
+  register(program: Command): void {
+    program
+      .command('resume')
+      .description(
+        'Ask a past session a follow-up question, or without one, hold more rounds on its latest question'
+      )
+      .argument('<id>', 'Session ID, or a unique prefix of it')
+      .argument('[prompt...]', 'Follow-up question')
+      .option(
+        '-r, --rounds <N>',
+        'Rounds for the follow-up, or rounds to add without one (default: 1)',
+        parseInt
+      )
+      .option('-S, --single', 'Synthesize the answer into a single unified answer')
+      .option('-j, --json', 'Output as JSON instead of plain text')
+      .option('-m, --meta', 'Include metadata (tokens, cost, latency)')
+      .option('-s, --show-models', 'Show model identities (hidden by default)')
+      .option('--config <path>', 'Path to config file (overrides default config discovery)')
+      .action(async (id: string, promptParts: string[], options: ResumeOptions) => {
+        try {
+          await this.run(id, promptParts.join(' '), options);
+        } catch (error) {
+          if (error instanceof BudgetExceededError) {
+            console.error(chalk.red('Refused:'), error.message);
+          } else {
+            console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+          }
+          process.exit(1);
+        }
+      });
+  }
+
+  private async run(id: string, prompt: string, options: ResumeOptions): Promise<void> {
+    const record = await this.sessionService.load(id);
+    if (!prompt && (record.config.mode === 'debate' || record.config.choices)) {
+      throw new Error('Only consensus discussions can take more rounds; ask a follow-up instead');
+    }
+    // The session keeps its own council; the config supplies the API key and providers
+    await this.configService.loadConfig(undefined, options.config);
+
+    // Sessions stored before configurations carried their council's name
+    const session = new ChatSession(
+      this.councilService,
+      { ...record.config, name: record.config.name ?? record.council },
+      record.council
+    );
+    session.restore(record.turns, record.historyStart);
+    if (options.single) {
+      session.update({ defaults: { single: true } });
+    }
+
+    let turn: ChatTurn;
+    if (prompt) {
+      if (options.rounds) {
+        session.update({ rounds: options.rounds, maxRounds: undefined });
+      }
+      turn = await session.ask(prompt, { confirmBudget: createBudgetConfirmation() });
+    } else {
+      turn = await session.extend(options.rounds || 1, {
+        confirmBudget: createBudgetConfirmation(),
+      });
+    }
+
+    const output = new ResponseBuilder({
+      format: options.json ? 'json' : 'text',
+      showMeta: options.meta || false,
+      showModels: options.showModels || false,
+    }).buildConsensus(turn.result, session.council.defaults?.single);
+    if (output) {
+      console.log(output);
+    }
+
+    Object.assign(record, {
+      config: session.council,
+      turns: session.turns,
+      historyStart: session.historyStart,
+    });
+    if (await this.sessionService.save(record)) {
+      console.error(chalk.gray(`\nSession ${record.id} updated`));
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import 'reflect-metadata';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { injectable, inject } from 'tsyringe';
+
+import { transcriptCost } from '../../chat.js';
+import { ISessionService } from '../../interfaces.js';
+import { ResponseBuilder } from '../../response-builder.js';
+import { ChatTurn, CouncilConfig, SessionRecord } from '../../types.js';
+
+interface ShowOptions {
+  json?: boolean;
+  meta?: boolean;
+  showModels?: boolean;
+}
+
+@injectable()
+export class ShowCommand {
+  constructor(@inject('ISessionService') private sessionService: ISessionService) {}
+
+  register(program: Command): void {
+    program
+      .command('show')
+      .description('Show a past session')
+      .argument('<id>', 'Session ID, or a unique prefix of it')
+      .option('-j, --json', 'Output the stored session as JSON')
+      .option('-m, --meta', 'Include metadata (tokens, cost, latency)')
+      .option('-s, --show-models', 'Show model identities (hidden by default)')
+      .action(async (id: string, options: ShowOptions) => {
+        try {
+          const session = await this.sessionService.load(id);
+          if (options.json) {
+            console.log(JSON.stringify(session, null, 2));
+            return;
+          }
+          this.print(session, options);
+        } catch (error) {
+          console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+          process.exit(1);
+        }
+      });
+  }
+
+  private print(session: SessionRecord, options: ShowOptions): void {
+    const builder = new ResponseBuilder({
+      showMeta: options.meta || false,
+      showModels: options.showModels || false,
+    });
+
+    console.log(
+      chalk.bold.cyan(
+        `\nSession ${session.id} - ${session.council || 'default'}, ${new Date(session.createdAt).toLocaleString()}`
+      )
+    );
+    session.turns.forEach((turn) => this.printTurn(turn, session.config, builder));
+
+    const seconds = session.turns.reduce((sum, turn) => sum + (turn.durationMs || 0), 0) / 1000;
+    console.log(
+      chalk.gray(
+        `\n${session.turns.length} ${session.turns.length === 1 ? 'turn' : 'turns'}, est. $${transcriptCost(session.turns).toFixed(4)}, ${seconds.toFixed(1)}s`
+      )
+    );
+  }
+
+  /**
+   * Print a turn's question and the answer as the query printed it. Turns
+   * that were synthesized show their synthesis.
+   */
+  private printTurn(turn: ChatTurn, config: CouncilConfig, builder: ResponseBuilder): void {
+    const single = Boolean(turn.result.synthesis || config.defaults?.single);
+    console.log(chalk.bold(`\n> ${turn.prompt}\n`));
+    console.log(builder.buildConsensus(turn.result, single) ?? builder.buildConsensus(turn.result));
+  }
+}
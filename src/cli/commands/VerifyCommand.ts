@@ -4,7 +4,7 @@ import { Command } from 'commander';
 import { difference } from 'lodash-es';
 import { injectable, inject } from 'tsyringe';
 
-import { getModelId, ModelConfig, loadConfig, CoeConfig } from '../../config.js';
+import { getModelId, getModelFallbacks, ModelConfig, loadConfig, CoeConfig } from '../../config.js';
 import { IConfigService, ICouncilService } from '../../interfaces.js';
 import { CliOptions } from '../../types.js';
 
@@ -50,17 +50,18 @@ export class VerifyCommand {
       const invalidModels = new Set<string>();
       const modelSuggestions = new Map<string, string[]>();
 
-      // Helper to collect models
+      // Helper to collect models, including each seat's fallbacks
       const collectModels = (models: ModelConfig[]) => {
         models.forEach((model) => {
-          const modelId = getModelId(model);
-          allModels.add(modelId);
-          if (availableModelIds.size > 0 && !availableModelIds.has(modelId)) {
-            invalidModels.add(modelId);
-            if (options.fix) {
-              modelSuggestions.set(modelId, this.findSimilarModels(modelId, availableModels));
+          [getModelId(model), ...getModelFallbacks(model)].forEach((modelId) => {
+            allModels.add(modelId);
+            if (availableModelIds.size > 0 && !availableModelIds.has(modelId)) {
+              invalidModels.add(modelId);
+              if (options.fix) {
+                modelSuggestions.set(modelId, this.findSimilarModels(modelId, availableModels));
+              }
             }
-          }
+          });
         });
       };
 
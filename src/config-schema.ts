@@ -1,14 +1,64 @@
 import { z } from 'zod';
 
+import { BUILT_IN_PROMPTS } from './prompt-templates.js';
+
 // Model config can be a string or object
 export const ModelConfigSchema = z.union([
   z.string(),
   z.object({
     model: z.string(),
     system: z.string().optional(),
+    // Name of an entry in `personas`, used as the seat's system prompt
+    persona: z.string().optional(),
+    provider: z.string().optional(),
+    // Models tried in order when this seat's model fails
+    fallbacks: z.array(z.string()).optional(),
+    // Seat's role when the council runs in debate mode
+    role: z.enum(['proponent', 'critic', 'judge']).optional(),
+    position: z.string().optional(),
   }),
 ]);
 
+// OpenAI-compatible model provider (Ollama, llama.cpp server, vLLM, ...)
+export const ProviderConfigSchema = z.object({
+  type: z.literal('openai-compatible').default('openai-compatible'),
+  baseURL: z.string().url(),
+  apiKey: z.string().optional(),
+  apiKeyEnv: z.string().optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+});
+
+// Concurrency and requests-per-minute limits
+export const RateLimitSchema = z.object({
+  maxConcurrency: z.number().int().min(1).optional(),
+  requestsPerMinute: z.number().min(1).optional(),
+});
+
+// Request scheduling shared by all councils; `limits` keys are model patterns like `anthropic/*`
+export const SchedulerConfigSchema = RateLimitSchema.extend({
+  limits: z.record(z.string(), RateLimitSchema).optional(),
+});
+
+// Local record of past runs, for `coe history`, `coe show` and `coe resume`
+export const HistoryConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  // Sessions untouched for longer are deleted; 0 keeps them forever
+  retentionDays: z.number().int().min(0).default(30),
+});
+
+// Model answers kept on disk so identical queries are not paid for twice
+export const CacheConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  ttlHours: z.number().min(0).default(24),
+  maxSizeMB: z.number().min(1).default(100),
+});
+
+// What the MCP server may do for its clients
+export const McpConfigSchema = z.object({
+  // Directory whose files the tools may attach; without it they attach none
+  filesRoot: z.string().min(1).optional(),
+});
+
 // Output configuration
 export const OutputConfigSchema = z
   .object({
@@ -36,18 +86,45 @@ export const CouncilDefaultsSchema = z
   .object({
     rounds: z.number().min(1).max(10).optional(),
     single: z.boolean().optional(),
+    rank: z.boolean().optional(),
+    structured: z.boolean().optional(),
     temperature: z.number().min(0).max(2).optional(),
     timeLimit: z.number().min(0.1).max(300).optional(),
+    roundTimeLimit: z.number().min(0.1).max(3600).optional(),
     showModels: z.boolean().optional(),
     meta: z.boolean().optional(),
     json: z.boolean().optional(),
     firstN: z.number().min(1).optional(),
+    // Whether queries reuse, refresh or bypass cached answers
+    cache: z.enum(['use', 'refresh', 'off']).optional(),
     web: z.boolean().optional(),
     webMaxResults: z.number().min(1).max(50).optional(),
     webContext: z.enum(['low', 'medium', 'high']).optional(),
   })
   .optional();
 
+// Retry policy for failed model calls
+export const RetryConfigSchema = z
+  .object({
+    retries: z.number().int().min(0).max(10).optional(),
+    initialDelayMs: z.number().min(0).max(60000).optional(),
+    maxDelayMs: z.number().min(0).max(300000).optional(),
+    backoff: z.number().min(1).max(10).optional(),
+    jitter: z.number().min(0).max(1).optional(),
+    circuitBreakerThreshold: z.number().int().min(0).optional(),
+    circuitBreakerCooldownMs: z.number().int().min(0).optional(),
+  })
+  .optional();
+
+// How elders see each other's answers in consensus rounds
+export const PeerReviewConfigSchema = z
+  .object({
+    anonymize: z.boolean().optional(),
+    shuffle: z.boolean().optional(),
+    hideOwnAnswer: z.boolean().optional(),
+  })
+  .optional();
+
 // Council configuration
 export const CouncilConfigSchema = z.object({
   models: z.array(ModelConfigSchema).min(1),
@@ -55,26 +132,82 @@ export const CouncilConfigSchema = z.object({
   synthesizer: ModelConfigSchema.optional(),
   output: OutputConfigSchema.optional(),
   rounds: z.number().min(1).max(10).default(1),
+  // How seats deliberate: revising toward consensus, or debating before a judge
+  mode: z.enum(['consensus', 'debate']).optional(),
+  // Consensus rounds stop early once elders stop revising, up to `maxRounds`
+  maxRounds: z.number().int().min(1).max(10).optional(),
+  convergenceThreshold: z.number().min(0).max(1).optional(),
+  peerReview: PeerReviewConfigSchema,
+  // Reusable system prompts by name; councils inherit the root library
+  personas: z.record(z.string(), z.string()).optional(),
+  // Options the elders vote between; setting them runs the council as a vote
+  choices: z.array(z.string().min(1)).min(2).optional(),
   defaults: CouncilDefaultsSchema,
   webSearch: WebSearchConfigSchema,
+  retry: RetryConfigSchema,
+  // Spending limits in USD
+  maxCostPerQuery: z.number().min(0).optional(),
+  maxCostPerDay: z.number().min(0).optional(),
+});
+
+// MCP prompt templates; `{{name}}` in the template is filled from the argument
+export const PromptArgumentSchema = z.object({
+  name: z.string().regex(/^\w+$/, 'Prompt argument names may only use letters, digits and _'),
+  description: z.string().optional(),
+  required: z.boolean().optional(),
+});
+
+export const PromptTemplateSchema = z.object({
+  description: z.string().optional(),
+  // Optional when overriding a built-in prompt, which keeps its template
+  template: z.string().min(1).optional(),
+  arguments: z.array(PromptArgumentSchema).optional(),
+  // What the prompt suggests consulting: a council, and how many rounds
+  council: z.string().optional(),
+  rounds: z.number().int().min(1).max(10).optional(),
 });
 
 // Main COE configuration
 export const CoeConfigSchema = CouncilConfigSchema.extend({
   councils: z.record(z.string(), CouncilConfigSchema).optional(),
   defaultCouncil: z.string().optional(),
-}).refine(
-  (data) => {
-    // If councils are defined and defaultCouncil is set, it must exist
-    if (data.councils && data.defaultCouncil) {
-      return data.defaultCouncil in data.councils;
+  providers: z.record(z.string(), ProviderConfigSchema).optional(),
+  scheduler: SchedulerConfigSchema.optional(),
+  history: HistoryConfigSchema.optional(),
+  cache: CacheConfigSchema.optional(),
+  mcp: McpConfigSchema.optional(),
+  prompts: z.record(z.string(), PromptTemplateSchema).optional(),
+})
+  .refine(
+    (data) => {
+      // If councils are defined and defaultCouncil is set, it must exist
+      if (data.councils && data.defaultCouncil) {
+        return data.defaultCouncil in data.councils;
+      }
+      return true;
+    },
+    {
+      message: 'defaultCouncil must reference an existing council',
+    }
+  )
+  .refine(
+    (data) =>
+      Object.values(data.prompts || {}).every(
+        (prompt) => !prompt.council || prompt.council in (data.councils || {})
+      ),
+    {
+      message: 'Prompts must reference an existing council',
+    }
+  )
+  .refine(
+    (data) =>
+      Object.entries(data.prompts || {}).every(
+        ([name, prompt]) => prompt.template || name in BUILT_IN_PROMPTS
+      ),
+    {
+      message: 'Prompts other than the built-in ones need a template',
     }
-    return true;
-  },
-  {
-    message: 'defaultCouncil must reference an existing council',
-  }
-);
+  );
 
 // User defaults removed - no longer using .coerc files
 
@@ -86,8 +219,16 @@ export const ConfigSchema = z.object({
 
 // Export inferred types
 export type ModelConfig = z.infer<typeof ModelConfigSchema>;
+export type ProviderConfig = z.infer<typeof ProviderConfigSchema>;
+export type SchedulerConfig = z.infer<typeof SchedulerConfigSchema>;
+export type HistoryConfig = z.infer<typeof HistoryConfigSchema>;
+export type CacheConfig = z.infer<typeof CacheConfigSchema>;
+export type McpConfig = z.infer<typeof McpConfigSchema>;
+export type PromptTemplate = z.infer<typeof PromptTemplateSchema>;
 export type OutputConfig = z.infer<typeof OutputConfigSchema>;
 export type WebSearchConfig = z.infer<typeof WebSearchConfigSchema>;
+export type RetryConfig = z.infer<typeof RetryConfigSchema>;
+export type PeerReviewConfig = z.infer<typeof PeerReviewConfigSchema>;
 export type CouncilDefaults = z.infer<typeof CouncilDefaultsSchema>;
 export type CouncilConfig = z.infer<typeof CouncilConfigSchema>;
 export type CoeConfig = z.infer<typeof CoeConfigSchema>;
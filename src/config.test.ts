@@ -1,6 +1,14 @@
 import { describe, it, expect } from 'vitest';
 
-import { getModelId, getSystemPrompt, defaultSystemPrompt } from './config.js';
+import {
+  getModelId,
+  getModelFallbacks,
+  getSeatIds,
+  getSeatModel,
+  getSeatSystemPrompts,
+  getSystemPrompt,
+  defaultSystemPrompt,
+} from './config.js';
 
 describe('Config utilities', () => {
   describe('getModelId', () => {
@@ -11,6 +19,22 @@ describe('Config utilities', () => {
     it('should extract model from object', () => {
       expect(getModelId({ model: 'claude-3', system: 'custom' })).toBe('claude-3');
     });
+
+    it('should prefix model with its provider', () => {
+      expect(getModelId({ model: 'llama3.1', provider: 'local' })).toBe('local:llama3.1');
+    });
+  });
+
+  describe('getModelFallbacks', () => {
+    it('should return configured fallbacks in order', () => {
+      expect(
+        getModelFallbacks({ model: 'gpt-4', fallbacks: ['claude-3', 'local:llama3.1'] })
+      ).toEqual(['claude-3', 'local:llama3.1']);
+    });
+
+    it('should return no fallbacks for string models', () => {
+      expect(getModelFallbacks('gpt-4')).toEqual([]);
+    });
   });
 
   describe('getSystemPrompt', () => {
@@ -27,5 +51,36 @@ describe('Config utilities', () => {
         'Custom prompt'
       );
     });
+
+    it("should use the seat's persona", () => {
+      const personas = { securityExpert: 'Think like an attacker.' };
+      expect(
+        getSystemPrompt({ model: 'gpt-4', persona: 'securityExpert' }, 'Global', personas)
+      ).toBe('Think like an attacker.');
+      expect(() =>
+        getSystemPrompt({ model: 'gpt-4', persona: 'missing' }, 'Global', personas)
+      ).toThrow('Unknown persona "missing"');
+    });
+
+    it('should give seats the shared prompt unless they have their own', () => {
+      expect(getSeatSystemPrompts(['gpt-4', 'claude-3'], 'Shared')).toBeUndefined();
+      expect(
+        getSeatSystemPrompts(['gpt-4', { model: 'claude-3', system: 'Own' }], 'Shared')
+      ).toEqual(['Shared', 'Own']);
+    });
+  });
+
+  describe('getSeatIds', () => {
+    it('should tell apart seats sharing a model by persona or seat number', () => {
+      const ids = getSeatIds([
+        'claude-3',
+        { model: 'gpt-4', persona: 'securityExpert' },
+        { model: 'gpt-4', persona: 'pragmatist' },
+        'gpt-4',
+      ]);
+
+      expect(ids).toEqual(['claude-3', 'gpt-4#securityExpert', 'gpt-4#pragmatist', 'gpt-4#4']);
+      expect(ids.map(getSeatModel)).toEqual(['claude-3', 'gpt-4', 'gpt-4', 'gpt-4']);
+    });
   });
 });
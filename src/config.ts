@@ -1,4 +1,5 @@
 import fs from 'fs/promises';
+import os from 'os';
 import path from 'path';
 
 import * as dotenv from 'dotenv';
@@ -118,12 +119,97 @@ export async function loadConfig(councilName?: string): Promise<Config> {
 }
 
 export function getModelId(model: string | ModelConfig): string {
-  return typeof model === 'string' ? model : model.model;
+  if (typeof model === 'string') {
+    return model;
+  }
+  // A `provider` field is shorthand for the `<provider>:<model>` prefix form
+  return model.provider ? `${model.provider}:${model.model}` : model.model;
+}
+
+/**
+ * Directory for caches and local state such as the model catalog
+ */
+export function getCacheDir(): string {
+  return (
+    process.env.COE_CACHE_DIR ||
+    path.join(process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'coe')
+  );
+}
+
+export function getModelFallbacks(model: string | ModelConfig): string[] {
+  return typeof model === 'object' ? model.fallbacks || [] : [];
+}
+
+/**
+ * IDs a council's seats go by: their model IDs, except that a model sitting
+ * more than once is told apart by the seat's persona or seat number, as in
+ * `openai/gpt-4o#securityExpert`
+ */
+export function getSeatIds(models: (string | ModelConfig)[]): string[] {
+  const modelIds = models.map(getModelId);
+  const count = (ids: string[], id: string) => ids.filter((other) => other === id).length;
+
+  const named = modelIds.map((id, i) => {
+    const model = models[i];
+    if (count(modelIds, id) === 1) return id;
+    return typeof model === 'object' && model.persona ? `${id}#${model.persona}` : `${id}#${i + 1}`;
+  });
+  // The same model with the same persona twice falls back to seat numbers
+  return named.map((id, i) => (count(named, id) === 1 ? id : `${modelIds[i]}#${i + 1}`));
+}
+
+/**
+ * The model a seat ID refers to
+ */
+export function getSeatModel(seatId: string): string {
+  const separator = seatId.indexOf('#');
+  return separator > 0 ? seatId.slice(0, separator) : seatId;
 }
 
-export function getSystemPrompt(model: string | ModelConfig, globalSystem?: string): string {
-  if (typeof model === 'object' && model.system) {
+/**
+ * A seat's own system prompt: its `system`, or the prompt of its persona
+ */
+export function getSeatSystemPrompt(
+  model: string | ModelConfig,
+  personas: Record<string, string> = {}
+): string | undefined {
+  if (typeof model !== 'object') {
+    return undefined;
+  }
+  if (model.system) {
     return model.system;
   }
-  return globalSystem || defaultSystemPrompt;
+  if (model.persona) {
+    const prompt = personas[model.persona];
+    if (prompt === undefined) {
+      throw new Error(
+        `Unknown persona "${model.persona}" for ${getModelId(model)}; define it under "personas"`
+      );
+    }
+    return prompt;
+  }
+  return undefined;
+}
+
+/**
+ * System prompt for each seat, by seat index: the seat's own prompt or
+ * `shared`. Undefined when every seat uses `shared`.
+ */
+export function getSeatSystemPrompts(
+  models: (string | ModelConfig)[],
+  shared: string,
+  personas?: Record<string, string>
+): string[] | undefined {
+  const prompts = models.map((model) => getSeatSystemPrompt(model, personas));
+  return prompts.some((prompt) => prompt !== undefined)
+    ? prompts.map((prompt) => prompt ?? shared)
+    : undefined;
+}
+
+export function getSystemPrompt(
+  model: string | ModelConfig,
+  globalSystem?: string,
+  personas?: Record<string, string>
+): string {
+  return getSeatSystemPrompt(model, personas) || globalSystem || defaultSystemPrompt;
 }
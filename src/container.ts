@@ -9,11 +9,18 @@ import { VerifyCommand } from './cli/commands/VerifyCommand.js';
 import { JsonExporter } from './infrastructure/exporters/JsonExporter.js';
 import { MarkdownExporter } from './infrastructure/exporters/MarkdownExporter.js';
 import { TextExporter } from './infrastructure/exporters/TextExporter.js';
-import { IConfigService, ICouncilService, IExporter, IPricingService } from './interfaces.js';
+import {
+  IConfigService,
+  ICouncilService,
+  IExporter,
+  IPricingService,
+  ISessionService,
+} from './interfaces.js';
 import { ConfigService } from './services/ConfigService.js';
 import { CouncilService } from './services/CouncilService.js';
 import { ExportService } from './services/ExportService.js';
 import { PricingService } from './services/PricingService.js';
+import { SessionService } from './services/SessionService.js';
 
 // Commands
 
@@ -23,6 +30,7 @@ import { PricingService } from './services/PricingService.js';
 container.registerSingleton<IConfigService>('IConfigService', ConfigService);
 container.registerSingleton<ICouncilService>('ICouncilService', CouncilService);
 container.registerSingleton<IPricingService>('IPricingService', PricingService);
+container.registerSingleton<ISessionService>('ISessionService', SessionService);
 container.registerSingleton(ExportService);
 
 // Register exporters
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+
+import { hasConverged, parseRevision, textSimilarity } from './convergence.js';
+import { ModelResponse } from './council-client.js';
+
+const answer = (content: string, revised?: boolean): ModelResponse => ({
+  model: 'model',
+  content,
+  revised,
+});
+
+describe('Convergence', () => {
+  it('should split a trailing revision declaration off the answer', () => {
+    expect(parseRevision('Use PostgreSQL.\n\n**Revised:** no')).toEqual({
+      content: 'Use PostgreSQL.',
+      revised: false,
+    });
+    expect(parseRevision('Use SQLite instead.\nRevised: Yes.')).toEqual({
+      content: 'Use SQLite instead.',
+      revised: true,
+    });
+    expect(parseRevision('I revised: nothing')).toEqual({ content: 'I revised: nothing' });
+  });
+
+  it('should score identical texts 1 and unrelated texts 0', () => {
+    expect(textSimilarity('The answer is 42', 'the answer is 42!')).toBeCloseTo(1, 10);
+    expect(textSimilarity('apples and pears', 'quantum chromodynamics')).toBe(0);
+  });
+
+  it('should converge when every elder keeps its answer', () => {
+    const previous = [answer('Use PostgreSQL for the main store'), answer('Prefer MySQL')];
+
+    expect(
+      hasConverged(previous, [answer('Use PostgreSQL for the main store'), answer('x', false)])
+    ).toBe(true);
+    expect(
+      hasConverged(previous, [
+        answer('Use PostgreSQL for the main store'),
+        answer('Prefer MySQL', true),
+      ])
+    ).toBe(false);
+    expect(
+      hasConverged(previous, [answer('Go with DynamoDB and a cache'), answer('Prefer MySQL')])
+    ).toBe(false);
+  });
+
+  it('should ignore seats that sat out the round', () => {
+    const failed: ModelResponse = { model: 'model', error: 'Timed out' };
+    const previous = [answer('Use PostgreSQL'), failed];
+
+    expect(hasConverged(previous, [answer('Use PostgreSQL'), failed])).toBe(true);
+    expect(hasConverged([failed], [failed])).toBe(false);
+  });
+});
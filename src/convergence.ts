@@ -0,0 +1,90 @@
+import { ModelResponse } from './council-client.js';
+import { CouncilConfig } from './types.js';
+
+// Similarity at which an elder's answer counts as unchanged between rounds
+export const DEFAULT_CONVERGENCE_THRESHOLD = 0.9;
+
+const REVISION_MARKER = /\n*[*_]*revised[*_]*:[*_\s]*(yes|no)[*_.\s]*$/i;
+
+/**
+ * Instruction appended to consensus prompts when elders declare their revisions
+ */
+export const REVISION_INSTRUCTION =
+  'End your reply with a final line "Revised: yes" if you changed your answer or "Revised: no" if you stand by it.';
+
+/**
+ * Highest round a council may run: `maxRounds` when set, otherwise `rounds`
+ */
+export function maxRoundsFor(config: CouncilConfig): number {
+  return config.maxRounds || config.rounds || 1;
+}
+
+/**
+ * Whether rounds stop early once the elders converge
+ */
+export function convergenceEnabled(config: CouncilConfig): boolean {
+  return config.maxRounds !== undefined || config.convergenceThreshold !== undefined;
+}
+
+/**
+ * Split a trailing "Revised: yes/no" declaration off an elder's answer
+ */
+export function parseRevision(content: string): { content: string; revised?: boolean } {
+  const match = content.match(REVISION_MARKER);
+  if (!match) {
+    return { content };
+  }
+  return {
+    content: content.slice(0, match.index).trimEnd(),
+    revised: match[1].toLowerCase() === 'yes',
+  };
+}
+
+function wordCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Cosine similarity of two texts' word frequencies, from 0 (no words in
+ * common) to 1 (the same words in the same proportions)
+ */
+export function textSimilarity(a: string, b: string): number {
+  const countsA = wordCounts(a);
+  const countsB = wordCounts(b);
+  let dot = 0;
+  countsA.forEach((count, word) => (dot += count * (countsB.get(word) || 0)));
+
+  const norm = (counts: Map<string, number>) =>
+    Math.sqrt([...counts.values()].reduce((sum, count) => sum + count * count, 0));
+  const denominator = norm(countsA) * norm(countsB);
+  return denominator === 0 ? 0 : dot / denominator;
+}
+
+/**
+ * Whether every elder that answered in the latest round kept its answer: it
+ * declared it did not revise, or didn't declare and its answer is at least
+ * `threshold` similar to its previous one
+ */
+export function hasConverged(
+  previousRound: ModelResponse[],
+  latestRound: ModelResponse[],
+  threshold = DEFAULT_CONVERGENCE_THRESHOLD
+): boolean {
+  const answered = latestRound
+    .map((response, i) => [previousRound[i], response] as const)
+    // Seats that sat out the round carry their earlier response forward
+    .filter(([previous, latest]) => previous && latest !== previous && latest.content);
+
+  return (
+    answered.length > 0 &&
+    answered.every(([previous, latest]) =>
+      latest.revised !== undefined
+        ? !latest.revised
+        : textSimilarity(previous.content || '', latest.content!) >= threshold
+    )
+  );
+}
@@ -1,8 +1,44 @@
-import { createOpenRouter } from '@openrouter/ai-sdk-provider';
-import { generateText, streamText, generateObject } from 'ai';
+import { generateText, streamText, generateObject, ProviderMetadata } from 'ai';
 import { z } from 'zod';
 
-import { SynthesisSchema } from './synthesis-schema.js';
+import { dedupeCitations, extractUrlCitations } from './citations.js';
+import { ProviderConfig } from './config-schema.js';
+import { getSeatModel } from './config.js';
+import { REVISION_INSTRUCTION, parseRevision } from './convergence.js';
+import {
+  DebateSeat,
+  buildRolePrompt,
+  buildTurnPrompt,
+  buildVerdictPrompt,
+  roleLabel,
+} from './debate.js';
+import { ModelProvider, ResolvedModel } from './infrastructure/providers/ModelProvider.js';
+import { OpenAICompatibleProvider } from './infrastructure/providers/OpenAICompatibleProvider.js';
+import { OpenRouterProvider } from './infrastructure/providers/OpenRouterProvider.js';
+import { IPricingService } from './interfaces.js';
+import { PeerReview, PeerReviewOptions, preparePeerReview } from './peer-review.js';
+import {
+  PeerRanking,
+  RankingBallot,
+  RankingSchema,
+  buildRankingPrompt,
+  tallyRankings,
+  toBallot,
+} from './ranking.js';
+import { CacheMode, ResponseCache } from './response-cache.js';
+import {
+  CircuitBreaker,
+  DEFAULT_RETRY_POLICY,
+  ErrorKind,
+  RetryAttempt,
+  RetryPolicy,
+  classifyError,
+  withRetry,
+} from './retry.js';
+import { RequestScheduler, SchedulerOptions } from './scheduler.js';
+import { PricingService } from './services/PricingService.js';
+import { Synthesis, SynthesisSchema } from './synthesis-schema.js';
+import { buildRevotePrompt, buildVotePrompt, tallyVotes, voteSchema } from './voting.js';
 
 // Types moved from openrouter.ts
 export interface OpenRouterMessage {
@@ -18,26 +54,69 @@ export interface UrlCitation {
   end_index: number;
 }
 
+/**
+ * Outcome of a model query. `cancelled` marks seats aborted because enough
+ * other models had already answered (first-n) or the caller cancelled;
+ * `timedOut` marks seats aborted by a per-model or per-round deadline.
+ */
+export type ResponseStatus = 'success' | 'error' | 'cancelled' | 'timedOut';
+
+export interface ModelUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /** Reasoning tokens, counted within `completionTokens` */
+  reasoningTokens?: number;
+  /** Native web searches performed by the model */
+  webSearches?: number;
+  /** Results injected by the web search plugin */
+  webResults?: number;
+}
+
 export interface ModelResponse {
   model: string;
+  /** Fallback model that answered for this seat when its own model failed */
+  answeredBy?: string;
+  /** Debate role label, e.g. `Proponent (Option A)` */
+  role?: string;
+  /** Whether the elder declared it changed its answer in a consensus round */
+  revised?: boolean;
+  /** Pseudonym → seat model for the anonymized peers this elder reviewed */
+  peerLabels?: Record<string, string>;
+  /** Key points, perspectives and confidence of a structured synthesis */
+  structured?: Synthesis;
+  /** The elder's ballot in a vote; its rationale is the response's content */
+  vote?: { choice: string; confidence: number };
+  status?: ResponseStatus;
   content?: string;
   error?: string;
   citations?: UrlCitation[];
   meta?: {
     promptTokens?: number;
     completionTokens?: number;
+    reasoningTokens?: number;
     totalTokens?: number;
     latencyMs?: number;
+    /** Time spent waiting for the scheduler, excluded from `latencyMs` */
+    queueWaitMs?: number;
     estimatedCost?: number;
+    /** Failed attempts before the final outcome */
+    retries?: RetryAttempt[];
+    errorKind?: ErrorKind;
+    /** Answered from the response cache, at no cost */
+    cached?: boolean;
   };
 }
 
 export interface OpenRouterModel {
   id: string;
   name: string;
+  /** USD per token (or per request / search), as strings */
   pricing?: {
     prompt: string;
     completion: string;
+    request?: string;
+    internal_reasoning?: string;
+    web_search?: string;
   };
   context_length?: number;
   top_provider?: {
@@ -49,6 +128,14 @@ export interface CouncilClientOptions {
   apiKey: string;
   referer?: string;
   title?: string;
+  /** Additional providers, addressed as `<name>:<model>` in council seats */
+  providers?: Record<string, ProviderConfig>;
+  /** Concurrency and rate limits shared by every query made through this client */
+  scheduler?: SchedulerOptions;
+  /** Prices usage; defaults to a PricingService backed by the live model catalog */
+  pricing?: IPricingService;
+  /** Answers identical queries from disk; without it every query calls the model */
+  cache?: ResponseCache;
 }
 
 export interface QueryOptions {
@@ -59,125 +146,341 @@ export interface QueryOptions {
     | boolean
     | { maxResults?: number; search_context_size?: string; id?: string; max_results?: number };
   firstN?: number;
+  /** Deadline for each model in a round; slower requests are aborted */
+  timeoutMs?: number;
+  /** Deadline for a whole round; models still pending when it expires are aborted */
+  roundTimeoutMs?: number;
+  /** When set, responses are streamed and each text delta is passed here */
+  onChunk?: (text: string, modelId: string) => void;
+  /** Overrides for the default retry policy */
+  retry?: Partial<RetryPolicy>;
+  /** Ordered substitutes per seat model, tried when the seat's model fails */
+  fallbacks?: Record<string, string[]>;
+  /** Scheduler flow the requests belong to; each council query gets its own by default */
+  queue?: string;
+  /**
+   * Called before each round after the first and before a debate's verdict;
+   * return false to stop the discussion
+   */
+  continueRound?: (round: number, previousRounds: ModelResponse[][]) => boolean;
+  /** Ask elders in consensus rounds to declare whether they revised their answer */
+  declareRevisions?: boolean;
+  /** How elders see each other's answers in consensus rounds */
+  peerReview?: PeerReviewOptions;
+  /** System prompt for each seat, by seat index, in place of the shared one */
+  systemPrompts?: string[];
+  /** Each seat's earlier conversation, by seat index, sent between its system prompt and the question */
+  histories?: OpenRouterMessage[][];
+  /** Consensus rounds already held on the prompt; the discussion picks up after them */
+  earlierRounds?: ModelResponse[][];
+  /** How queries use the client's response cache (default: use) */
+  cache?: CacheMode;
+}
+
+function timeoutError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'TimeoutError';
+  return error;
 }
 
 /**
- * Retry wrapper for async operations
+ * Progress status reported once a model's query for a round has settled
  */
-async function withRetry<T>(
-  fn: () => Promise<T>,
-  options: {
-    retries?: number;
-    delay?: number;
-    backoff?: number;
-    onRetry?: (attempt: number, error: Error) => void;
-  } = {}
-): Promise<T> {
-  const { retries = 3, delay = 1000, backoff = 2, onRetry } = options;
-
-  let lastError: Error;
-  for (let attempt = 0; attempt <= retries; attempt++) {
-    try {
-      return await fn();
-    } catch (error) {
-      lastError = error as Error;
-
-      if (attempt < retries) {
-        const waitTime = delay * Math.pow(backoff, attempt);
-        onRetry?.(attempt + 1, lastError);
-        await new Promise((resolve) => setTimeout(resolve, waitTime));
-      }
-    }
-  }
-
-  throw lastError!;
+function progressStatus(response: ModelResponse): string {
+  return response.status === 'cancelled' || response.status === 'timedOut'
+    ? response.status
+    : 'complete';
 }
 
 export class CouncilClient {
-  private openrouter: ReturnType<typeof createOpenRouter>;
-  private apiKey: string;
+  private defaultProvider: ModelProvider;
+  private providers = new Map<string, ModelProvider>();
+  private circuitBreaker = new CircuitBreaker();
+  private scheduler: RequestScheduler;
+  private pricing: IPricingService;
+  private cache?: ResponseCache;
 
   constructor(options: CouncilClientOptions) {
-    this.apiKey = options.apiKey;
-    this.openrouter = createOpenRouter({
+    this.scheduler = new RequestScheduler(options.scheduler);
+    this.pricing = options.pricing || new PricingService();
+    this.cache = options.cache;
+    this.defaultProvider = new OpenRouterProvider({
       apiKey: options.apiKey,
-      headers: {
-        'HTTP-Referer': options.referer || 'https://github.com/council-of-elders',
-        'X-Title': options.title || 'Council of Elders',
-      },
+      referer: options.referer,
+      title: options.title,
     });
+    this.providers.set(this.defaultProvider.name, this.defaultProvider);
+
+    for (const [name, config] of Object.entries(options.providers || {})) {
+      this.providers.set(name, new OpenAICompatibleProvider(name, config));
+    }
+    this.pricing.setLocalProviders(Object.keys(options.providers || {}));
+  }
+
+  /**
+   * Resolve a seat's model ID to its provider. IDs of the form `<provider>:<model>`
+   * select a registered provider; anything else (including OpenRouter variants
+   * such as `:free` or `:online`) goes to OpenRouter. A seat ID's `#` suffix is
+   * dropped, as are seat IDs throughout pricing, scheduling and circuit breaking.
+   */
+  private resolveModel(seatId: string, options: QueryOptions = {}): ResolvedModel {
+    const modelId = getSeatModel(seatId);
+    const separator = modelId.indexOf(':');
+    const prefixed = separator > 0 ? this.providers.get(modelId.slice(0, separator)) : undefined;
+    const provider = prefixed || this.defaultProvider;
+
+    return provider.resolveModel(prefixed ? modelId.slice(separator + 1) : modelId, options);
+  }
+
+  private retryPolicy(options: QueryOptions): RetryPolicy {
+    return { ...DEFAULT_RETRY_POLICY, ...options.retry };
+  }
+
+  /**
+   * Short-circuit models that kept failing until their cooldown is over
+   */
+  private checkCircuit(modelId: string, policy: RetryPolicy): ModelResponse | undefined {
+    if (!this.circuitBreaker.isOpen(getSeatModel(modelId), policy)) {
+      return undefined;
+    }
+    return {
+      model: modelId,
+      status: 'error',
+      error: `Skipped: ${modelId} failed ${policy.circuitBreakerThreshold} consecutive times; it is tried again ${Math.round(policy.circuitBreakerCooldownMs / 1000)}s after its last failure`,
+    };
   }
 
   /**
-   * Query a single model
+   * Run a request once the scheduler admits it, adding the time spent queued to `queue`
+   */
+  private async scheduled<T>(
+    modelId: string,
+    options: QueryOptions,
+    queue: { waitMs: number },
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const slot = await this.scheduler.acquire(getSeatModel(modelId), options.queue, options.signal);
+    queue.waitMs += slot.waitMs;
+    try {
+      return await fn();
+    } finally {
+      slot.release();
+    }
+  }
+
+  /**
+   * Gather web-search sources from the provider metadata and the raw response
+   */
+  private async extractCitations(
+    resolved: ResolvedModel,
+    providerMetadata: ProviderMetadata | undefined
+  ): Promise<UrlCitation[] | undefined> {
+    const citations = dedupeCitations([
+      ...extractUrlCitations(providerMetadata?.openrouter?.annotations),
+      ...((await resolved.citations?.()) || []),
+    ]);
+    return citations.length > 0 ? citations : undefined;
+  }
+
+  /**
+   * Query a single model, answering from the response cache when an identical
+   * query was answered before. The cache is keyed by the seat, the messages
+   * and the sampling and search settings.
    */
   async queryModel(
     modelId: string,
     messages: OpenRouterMessage[],
     options: QueryOptions = {}
   ): Promise<ModelResponse> {
+    const mode = options.cache ?? 'use';
+    const key =
+      this.cache && mode !== 'off'
+        ? this.cache.key({
+            model: modelId,
+            messages,
+            temperature: options.temperature ?? 0.7,
+            maxTokens: options.maxTokens,
+            webSearch: options.webSearch,
+          })
+        : undefined;
+
+    if (key && mode === 'use') {
+      const cached = await this.cache!.get(key);
+      if (cached) {
+        // Streamed output still shows the answer, in one piece
+        if (cached.content) options.onChunk?.(cached.content, modelId);
+        return {
+          ...cached,
+          model: modelId,
+          meta: {
+            ...cached.meta,
+            latencyMs: 0,
+            queueWaitMs: 0,
+            estimatedCost: 0,
+            retries: undefined,
+            cached: true,
+          },
+        };
+      }
+    }
+
+    const response = options.onChunk
+      ? await this.streamModel(modelId, messages, options)
+      : await this.generateModel(modelId, messages, options);
+    if (key && response.status === 'success') {
+      await this.cache!.set(key, response);
+    }
+    return response;
+  }
+
+  private async generateModel(
+    modelId: string,
+    messages: OpenRouterMessage[],
+    options: QueryOptions
+  ): Promise<ModelResponse> {
+    const policy = this.retryPolicy(options);
+    const skipped = this.checkCircuit(modelId, policy);
+    if (skipped) return skipped;
+
     const startTime = Date.now();
+    const retries: RetryAttempt[] = [];
+    const queue = { waitMs: 0 };
 
     try {
-      // Apply web search suffix if needed
-      const model =
-        options.webSearch === true
-          ? this.openrouter(`${modelId}:online`)
-          : this.openrouter(modelId);
+      const resolved = this.resolveModel(modelId, options);
+      const { model, providerMetadata } = resolved;
 
       const result = await withRetry(
         () =>
-          generateText({
-            model,
-            messages: messages.map((m) => ({
-              role: m.role,
-              content: m.content,
-            })),
-            temperature: options.temperature ?? 0.7,
-            maxTokens: options.maxTokens,
-            abortSignal: options.signal,
-            ...(options.webSearch &&
-              typeof options.webSearch === 'object' && {
-                experimental_providerMetadata: {
-                  openrouter: {
-                    plugins: [{ id: 'web', max_results: options.webSearch.maxResults || 5 }],
-                  },
-                },
-              }),
-          }),
-        {
-          retries: 3,
-          delay: 1000,
-          onRetry: (attempt) => console.error(`Retrying ${modelId} (attempt ${attempt})...`),
-        }
+          this.scheduled(modelId, options, queue, () =>
+            generateText({
+              model,
+              messages: messages.map((m) => ({
+                role: m.role,
+                content: m.content,
+              })),
+              temperature: options.temperature ?? 0.7,
+              maxTokens: options.maxTokens,
+              abortSignal: options.signal,
+              // Retries are handled by our own policy
+              maxRetries: 0,
+              ...(providerMetadata && { experimental_providerMetadata: providerMetadata }),
+            })
+          ),
+        policy,
+        { signal: options.signal, history: retries }
       );
 
-      const latencyMs = Date.now() - startTime;
-
-      // Extract citations if available
-      const citations: UrlCitation[] = [];
-      // TODO: Extract citations from Vercel AI SDK response when available
+      const latencyMs = Date.now() - startTime - queue.waitMs;
+      this.circuitBreaker.recordSuccess(getSeatModel(modelId));
 
       return {
         model: modelId,
+        status: 'success',
         content: result.text,
-        citations: citations.length > 0 ? citations : undefined,
-        meta: result.usage
-          ? {
-              promptTokens: result.usage.promptTokens,
-              completionTokens: result.usage.completionTokens,
-              totalTokens: result.usage.totalTokens,
-              latencyMs,
-              estimatedCost: this.estimateCost(modelId, result.usage),
-            }
-          : undefined,
+        citations: await this.extractCitations(resolved, result.providerMetadata),
+        meta: await this.buildMeta(
+          modelId,
+          this.buildUsage(resolved, result.usage, result.providerMetadata),
+          latencyMs,
+          queue.waitMs,
+          retries
+        ),
       };
     } catch (error) {
-      return {
-        model: modelId,
-        error: error instanceof Error ? error.message : String(error),
-      };
+      return this.buildErrorResponse(modelId, error, options, retries);
+    }
+  }
+
+  /**
+   * Load catalog pricing once per client, from the disk cache when fresh
+   */
+  loadPricing(): Promise<void> {
+    return this.pricing.loadCatalog(() => this.listModels());
+  }
+
+  /**
+   * Combine the SDK's token counts with reasoning tokens reported by OpenRouter
+   * and the web search the provider ran
+   */
+  private buildUsage(
+    resolved: ResolvedModel,
+    usage: { promptTokens: number; completionTokens: number; totalTokens: number } | undefined,
+    providerMetadata: ProviderMetadata | undefined
+  ): (ModelUsage & { totalTokens: number }) | undefined {
+    if (!usage) {
+      return undefined;
+    }
+
+    const details = providerMetadata?.openrouter?.usage as
+      | { completionTokensDetails?: { reasoningTokens?: number } }
+      | undefined;
+    const reasoningTokens = details?.completionTokensDetails?.reasoningTokens;
+
+    return {
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+      ...(reasoningTokens ? { reasoningTokens } : {}),
+      ...resolved.webUsage,
+    };
+  }
+
+  private async buildMeta(
+    modelId: string,
+    usage: (ModelUsage & { totalTokens: number }) | undefined,
+    latencyMs: number,
+    queueWaitMs: number,
+    retries: RetryAttempt[]
+  ): Promise<ModelResponse['meta']> {
+    if (!usage && retries.length === 0) {
+      return undefined;
+    }
+
+    await this.loadPricing();
+    return {
+      ...(usage && {
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        ...(usage.reasoningTokens ? { reasoningTokens: usage.reasoningTokens } : {}),
+        totalTokens: usage.totalTokens,
+        latencyMs,
+        queueWaitMs,
+        estimatedCost: this.pricing.calculate(getSeatModel(modelId), usage),
+      }),
+      ...(retries.length > 0 && { retries }),
+    };
+  }
+
+  /**
+   * Turn a failed query into a response, distinguishing cancellation from errors
+   */
+  private buildErrorResponse(
+    modelId: string,
+    error: unknown,
+    options: QueryOptions,
+    retries: RetryAttempt[] = []
+  ): ModelResponse {
+    if (options.signal?.aborted) {
+      const reason = options.signal.reason as Error | undefined;
+      if (reason?.name === 'TimeoutError') {
+        return { model: modelId, status: 'timedOut', error: reason.message };
+      }
+      return { model: modelId, status: 'cancelled' };
     }
+
+    const errorKind = retries[retries.length - 1]?.kind ?? classifyError(error).kind;
+    this.circuitBreaker.recordFailure(getSeatModel(modelId), errorKind, this.retryPolicy(options));
+
+    return {
+      model: modelId,
+      status: 'error',
+      error: error instanceof Error ? error.message : String(error),
+      meta: {
+        errorKind,
+        ...(retries.length > 0 && { retries }),
+      },
+    };
   }
 
   /**
@@ -186,81 +489,173 @@ export class CouncilClient {
   async queryMultipleModels(
     modelIds: string[],
     messages: OpenRouterMessage[],
-    options: QueryOptions = {}
+    options: QueryOptions = {},
+    onProgress?: (round: number, model: string, status: string) => void
   ): Promise<ModelResponse[]> {
-    const promises = modelIds.map((modelId) => this.queryModel(modelId, messages, options));
+    const queue = options.queue ?? this.scheduler.createFlow();
+    return this.raceModels(modelIds, options, async (modelId, index, signal) => {
+      onProgress?.(1, modelId, 'querying');
+      const response = await this.querySeat(modelId, this.seatMessages(messages, index, options), {
+        ...options,
+        queue,
+        signal,
+      });
+      onProgress?.(1, modelId, progressStatus(response));
+      return response;
+    });
+  }
+
+  /**
+   * The messages sent to the seat at `index`: the shared messages with the
+   * seat's own system prompt and earlier conversation, when it has them
+   */
+  private seatMessages(
+    messages: OpenRouterMessage[],
+    index: number,
+    options: QueryOptions
+  ): OpenRouterMessage[] {
+    if (!options.systemPrompts && !options.histories) {
+      return messages;
+    }
+    const system =
+      options.systemPrompts?.[index] ?? messages.find((m) => m.role === 'system')?.content;
+    return [
+      ...(system !== undefined ? [{ role: 'system' as const, content: system }] : []),
+      ...(options.histories?.[index] || []),
+      ...messages.filter((message) => message.role !== 'system'),
+    ];
+  }
+
+  /**
+   * Query a council seat, moving down its fallback list while models fail. The
+   * response keeps the seat's model ID and records the substitute in `answeredBy`.
+   * `ask` makes the query for each candidate, by default a plain chat completion.
+   */
+  private async querySeat(
+    seat: string,
+    messages: OpenRouterMessage[],
+    options: QueryOptions,
+    candidates: string[] = [seat, ...(options.fallbacks?.[seat] || [])],
+    ask: (model: string, options: QueryOptions) => Promise<ModelResponse> = (model, options) =>
+      this.queryModel(model, messages, options)
+  ): Promise<ModelResponse> {
+    const seatOptions: QueryOptions = {
+      ...options,
+      // Keep streamed output under the seat's own panel whichever model answers
+      onChunk: options.onChunk && ((text) => options.onChunk!(text, seat)),
+    };
+    const failures: ModelResponse[] = [];
 
-    if (options.firstN && options.firstN < modelIds.length) {
-      return this.getFirstNResponses(promises, modelIds, options.firstN);
+    for (const candidate of candidates) {
+      const response = await ask(candidate, seatOptions);
+      if (response.status !== 'error') {
+        return candidate === seat ? response : { ...response, model: seat, answeredBy: candidate };
+      }
+      failures.push(response);
     }
 
-    return Promise.all(promises);
+    if (failures.length === 1) {
+      return { ...failures[0], model: seat };
+    }
+    return {
+      ...failures[failures.length - 1],
+      model: seat,
+      error: `All fallbacks failed: ${failures.map((f) => `${f.model} (${f.error})`).join('; ')}`,
+    };
   }
 
   /**
-   * Get first N responses, marking others as not needed
+   * Run one query per model, each with its own AbortController. When `firstN` is
+   * set, the remaining in-flight requests are aborted as soon as N models have
+   * answered successfully and their seats are marked `cancelled`. `timeoutMs` and
+   * `roundTimeoutMs` abort models that miss their deadline and mark them `timedOut`.
    */
-  private async getFirstNResponses(
-    promises: Promise<ModelResponse>[],
+  private async raceModels(
     modelIds: string[],
-    n: number
+    options: QueryOptions,
+    run: (modelId: string, index: number, signal: AbortSignal) => Promise<ModelResponse>
   ): Promise<ModelResponse[]> {
-    const results: ModelResponse[] = [];
-    const completed = new Set<number>();
-
-    return new Promise((resolve) => {
-      promises.forEach((promise, index) => {
-        promise
-          .then((response) => {
-            if (completed.size < n) {
-              completed.add(index);
-              results.push(response);
-
-              if (completed.size === n) {
-                // Create full result array maintaining order
-                const allResults: ModelResponse[] = [];
-                for (let i = 0; i < modelIds.length; i++) {
-                  if (completed.has(i)) {
-                    const result = results.find((r) => r.model === modelIds[i]);
-                    if (result) allResults.push(result);
-                  } else {
-                    allResults.push({
-                      model: modelIds[i],
-                      error: 'Response not needed (first-n limit reached)',
-                    });
-                  }
-                }
-                resolve(allResults);
-              }
+    const controllers = modelIds.map(() => new AbortController());
+    const abortAll = () => controllers.forEach((controller) => controller.abort());
+    options.signal?.addEventListener('abort', abortAll, { once: true });
+    // A query cancelled between rounds sends nothing more
+    if (options.signal?.aborted) abortAll();
+
+    const needed =
+      options.firstN && options.firstN < modelIds.length ? options.firstN : modelIds.length;
+    const results: (ModelResponse | undefined)[] = new Array<ModelResponse | undefined>(
+      modelIds.length
+    );
+    const timers: NodeJS.Timeout[] = [];
+
+    try {
+      await new Promise<void>((resolve) => {
+        let settled = 0;
+        let answered = 0;
+        let done = false;
+
+        const finish = (pending: (model: string) => ModelResponse) => {
+          done = true;
+          controllers.forEach((controller, i) => {
+            if (!results[i]) {
+              const response = pending(modelIds[i]);
+              results[i] = response;
+              // Cancel the losers immediately instead of waiting on their sockets
+              controller.abort(
+                response.status === 'timedOut' ? timeoutError(response.error!) : undefined
+              );
             }
-          })
-          .catch((error) => {
-            if (completed.size < n) {
-              completed.add(index);
-              results.push({
-                model: modelIds[index],
+          });
+          resolve();
+        };
+
+        if (options.roundTimeoutMs) {
+          const message = `Timed out: round exceeded ${options.roundTimeoutMs / 1000}s`;
+          timers.push(
+            setTimeout(
+              () => finish((model) => ({ model, status: 'timedOut', error: message })),
+              options.roundTimeoutMs
+            )
+          );
+        }
+
+        modelIds.forEach((modelId, index) => {
+          if (options.timeoutMs) {
+            const message = `Timed out after ${options.timeoutMs / 1000}s`;
+            timers.push(
+              setTimeout(() => controllers[index].abort(timeoutError(message)), options.timeoutMs)
+            );
+          }
+
+          void run(modelId, index, controllers[index].signal)
+            .catch(
+              (error): ModelResponse => ({
+                model: modelId,
+                status: 'error',
                 error: error instanceof Error ? error.message : String(error),
-              });
-
-              if (completed.size === n) {
-                const allResults: ModelResponse[] = [];
-                for (let i = 0; i < modelIds.length; i++) {
-                  if (completed.has(i)) {
-                    const result = results.find((r) => r.model === modelIds[i]);
-                    if (result) allResults.push(result);
-                  } else {
-                    allResults.push({
-                      model: modelIds[i],
-                      error: 'Response not needed (first-n limit reached)',
-                    });
-                  }
-                }
-                resolve(allResults);
+              })
+            )
+            .then((response) => {
+              if (done) return;
+
+              results[index] = response;
+              settled++;
+              if (!response.error && response.status !== 'cancelled') {
+                answered++;
               }
-            }
-          });
+
+              if (answered >= needed || settled === modelIds.length) {
+                finish((model) => ({ model, status: 'cancelled' }));
+              }
+            });
+        });
       });
-    });
+    } finally {
+      timers.forEach((timer) => clearTimeout(timer));
+      options.signal?.removeEventListener('abort', abortAll);
+    }
+
+    return results as ModelResponse[];
   }
 
   /**
@@ -274,169 +669,449 @@ export class CouncilClient {
     options: QueryOptions = {},
     onProgress?: (round: number, model: string, status: string) => void
   ): Promise<ModelResponse[][]> {
-    const allResponses: ModelResponse[][] = [];
+    const allResponses: ModelResponse[][] = [...(options.earlierRounds || [])];
+    // All rounds of this discussion share one scheduler flow
+    options = { ...options, queue: options.queue ?? this.scheduler.createFlow() };
 
     // Round 1: Initial responses
-    const initialMessages: OpenRouterMessage[] = [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: initialPrompt },
-    ];
-
-    if (onProgress) {
-      modelIds.forEach((model) => onProgress(1, model, 'querying'));
+    if (allResponses.length === 0) {
+      const initialMessages: OpenRouterMessage[] = [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: initialPrompt },
+      ];
+
+      allResponses.push(
+        await this.queryMultipleModels(modelIds, initialMessages, options, onProgress)
+      );
     }
 
-    const round1Responses = await this.queryMultipleModels(modelIds, initialMessages, options);
-    allResponses.push(round1Responses);
+    // Subsequent rounds: consensus building
+    for (let round = allResponses.length + 1; round <= rounds; round++) {
+      if (options.continueRound && !options.continueRound(round, allResponses)) {
+        break;
+      }
+      const previousRoundResponses = allResponses[round - 2];
+
+      const roundResponses = await this.raceModels(
+        modelIds,
+        options,
+        async (modelId, i, signal) => {
+          const previousResponse = previousRoundResponses[i];
+
+          // Seats that failed, timed out or were cancelled earlier sit out the remaining rounds
+          if (previousResponse.error || previousResponse.status === 'cancelled') {
+            onProgress?.(round, modelId, 'skipped');
+            return previousResponse;
+          }
+
+          if (onProgress) {
+            onProgress(round, modelId, 'preparing');
+          }
+
+          // Build consensus messages; an elder whose own answer is hidden reviews it among its peers'
+          const review = preparePeerReview(i, previousRoundResponses, options.peerReview);
+          const hideOwnAnswer = options.peerReview?.hideOwnAnswer ?? false;
+          const consensusMessages: OpenRouterMessage[] = [
+            { role: 'system', content: options.systemPrompts?.[i] ?? systemPrompt },
+            ...(options.histories?.[i] || []),
+            { role: 'user', content: initialPrompt },
+            ...(hideOwnAnswer
+              ? []
+              : [{ role: 'assistant' as const, content: previousResponse.content! }]),
+            {
+              role: 'user',
+              content: this.buildConsensusPrompt(review, hideOwnAnswer, options.declareRevisions),
+            },
+          ];
+
+          if (onProgress) {
+            onProgress(round, modelId, 'querying');
+          }
+
+          // A seat answered by a fallback keeps that substitute so the conversation stays coherent
+          const response = await this.querySeat(
+            modelId,
+            consensusMessages,
+            { ...options, signal },
+            previousResponse.answeredBy ? [previousResponse.answeredBy] : undefined
+          );
+          if (options.declareRevisions && response.content) {
+            Object.assign(response, parseRevision(response.content));
+          }
+          if (review.labels) {
+            response.peerLabels = review.labels;
+          }
+
+          // Keep the sources a seat relied on earlier alongside any new ones
+          if (!response.error && previousResponse.citations) {
+            response.citations = dedupeCitations([
+              ...previousResponse.citations,
+              ...(response.citations || []),
+            ]);
+          }
+
+          if (onProgress) {
+            onProgress(round, modelId, progressStatus(response));
+          }
+
+          return response;
+        }
+      );
 
-    if (onProgress) {
-      modelIds.forEach((model) => onProgress(1, model, 'complete'));
+      allResponses.push(roundResponses);
     }
 
-    // Subsequent rounds: consensus building
-    for (let round = 2; round <= rounds; round++) {
-      const previousRoundResponses = allResponses[round - 2];
+    return allResponses;
+  }
 
-      const consensusPromises = modelIds.map(async (modelId, i) => {
-        const previousResponse = previousRoundResponses[i];
+  /**
+   * Run a structured debate: the debaters open with arguments, later rounds
+   * alternate rebuttals and arguments answering the other side, and the judge
+   * then rules on the full transcript. Responses carry their seat's role label.
+   */
+  async runDebate(
+    seats: DebateSeat[],
+    topic: string,
+    systemPrompt: string,
+    rounds: number,
+    options: QueryOptions = {},
+    onProgress?: (round: number, model: string, status: string) => void
+  ): Promise<{ rounds: ModelResponse[][]; verdict?: ModelResponse }> {
+    const debaters = seats.filter((seat) => seat.role !== 'judge');
+    const judge = seats.find((seat) => seat.role === 'judge')!;
+    const systemOf = (seat: DebateSeat) =>
+      options.systemPrompts?.[seats.indexOf(seat)] ?? systemPrompt;
+    const allResponses: ModelResponse[][] = [];
+    options = { ...options, queue: options.queue ?? this.scheduler.createFlow() };
 
-        if (previousResponse.error) {
-          return previousResponse;
+    for (let round = 1; round <= rounds; round++) {
+      if (round > 1 && options.continueRound && !options.continueRound(round, allResponses)) {
+        break;
+      }
+      const previousRound = allResponses[round - 2];
+
+      const roundResponses = await this.raceModels(
+        debaters.map((seat) => seat.model),
+        options,
+        async (modelId, i, signal) => {
+          const seat = debaters[i];
+          const previousResponse = previousRound?.[i];
+
+          // Debaters that failed, timed out or were cancelled earlier sit out the remaining rounds
+          if (
+            previousResponse &&
+            (previousResponse.error || previousResponse.status === 'cancelled')
+          ) {
+            onProgress?.(round, modelId, 'skipped');
+            return previousResponse;
+          }
+
+          const messages: OpenRouterMessage[] = [
+            { role: 'system', content: buildRolePrompt(seat, systemOf(seat)) },
+            { role: 'user', content: topic },
+          ];
+          if (previousResponse) {
+            messages.push(
+              { role: 'assistant', content: previousResponse.content! },
+              { role: 'user', content: buildTurnPrompt(round, seat, debaters, previousRound) }
+            );
+          }
+
+          onProgress?.(round, modelId, 'querying');
+          const response = await this.querySeat(
+            modelId,
+            messages,
+            { ...options, signal },
+            previousResponse?.answeredBy ? [previousResponse.answeredBy] : undefined
+          );
+          response.role = roleLabel(seat);
+
+          if (!response.error && previousResponse?.citations) {
+            response.citations = dedupeCitations([
+              ...previousResponse.citations,
+              ...(response.citations || []),
+            ]);
+          }
+
+          onProgress?.(round, modelId, progressStatus(response));
+          return response;
         }
+      );
 
-        if (onProgress) {
-          onProgress(round, modelId, 'preparing');
-        }
+      allResponses.push(roundResponses);
+    }
 
-        // Build consensus messages
-        const consensusMessages: OpenRouterMessage[] = [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: initialPrompt },
-          { role: 'assistant', content: previousResponse.content! },
-          {
-            role: 'user',
-            content: this.buildConsensusPrompt(modelId, previousResponse, previousRoundResponses),
-          },
-        ];
+    if (options.continueRound && !options.continueRound(rounds + 1, allResponses)) {
+      return { rounds: allResponses };
+    }
 
-        if (onProgress) {
-          onProgress(round, modelId, 'querying');
-        }
+    // The verdict is held to the same deadlines as a round of the debate
+    onProgress?.(allResponses.length, judge.model, 'querying');
+    const [verdict] = await this.raceModels([judge.model], options, (modelId, _i, signal) =>
+      this.querySeat(
+        modelId,
+        [
+          { role: 'system', content: buildRolePrompt(judge, systemOf(judge)) },
+          { role: 'user', content: buildVerdictPrompt(topic, debaters, allResponses) },
+        ],
+        { ...options, signal }
+      )
+    );
+    verdict.role = roleLabel(judge);
+    onProgress?.(allResponses.length, judge.model, progressStatus(verdict));
+
+    return { rounds: allResponses, verdict };
+  }
 
-        const response = await this.queryModel(modelId, consensusMessages, options);
+  /**
+   * Have the elders vote for one of `choices`. From the second round on, each
+   * elder sees the previous tally and the rationales and may change its vote;
+   * `revised` records whether it did.
+   */
+  async runVote(
+    modelIds: string[],
+    question: string,
+    systemPrompt: string,
+    choices: string[],
+    rounds: number,
+    options: QueryOptions = {},
+    onProgress?: (round: number, model: string, status: string) => void
+  ): Promise<ModelResponse[][]> {
+    const allResponses: ModelResponse[][] = [];
+    options = { ...options, queue: options.queue ?? this.scheduler.createFlow() };
+    const schema = voteSchema(choices);
 
-        if (onProgress) {
-          onProgress(round, modelId, 'complete');
+    for (let round = 1; round <= rounds; round++) {
+      if (round > 1 && options.continueRound && !options.continueRound(round, allResponses)) {
+        break;
+      }
+      const previousRound = allResponses[round - 2];
+      const tally = previousRound && tallyVotes(choices, previousRound);
+
+      const roundResponses = await this.raceModels(
+        modelIds,
+        options,
+        async (modelId, i, signal) => {
+          const previousResponse = previousRound?.[i];
+
+          // Seats that failed, timed out or were cancelled earlier sit out the remaining rounds
+          if (
+            previousResponse &&
+            (previousResponse.error || previousResponse.status === 'cancelled')
+          ) {
+            onProgress?.(round, modelId, 'skipped');
+            return previousResponse;
+          }
+
+          const messages: OpenRouterMessage[] = [
+            { role: 'system', content: options.systemPrompts?.[i] ?? systemPrompt },
+            { role: 'user', content: buildVotePrompt(question, choices) },
+          ];
+          const review = previousResponse
+            ? preparePeerReview(i, previousRound, options.peerReview)
+            : undefined;
+          if (review) {
+            const ownVote = options.peerReview?.hideOwnAnswer ? undefined : previousResponse;
+            messages.push({ role: 'user', content: buildRevotePrompt(tally, review, ownVote) });
+          }
+
+          onProgress?.(round, modelId, 'querying');
+          const response = await this.querySeat(
+            modelId,
+            messages,
+            { ...options, signal },
+            previousResponse?.answeredBy ? [previousResponse.answeredBy] : undefined,
+            (model, seatOptions) => this.castVote(model, messages, schema, seatOptions)
+          );
+          if (previousResponse?.vote && response.vote) {
+            response.revised = response.vote.choice !== previousResponse.vote.choice;
+          }
+          if (review?.labels) {
+            response.peerLabels = review.labels;
+          }
+
+          onProgress?.(round, modelId, progressStatus(response));
+          return response;
         }
+      );
 
-        return response;
-      });
-
-      const roundResponses = await Promise.all(consensusPromises);
       allResponses.push(roundResponses);
     }
 
     return allResponses;
   }
 
+  private async castVote(
+    modelId: string,
+    messages: OpenRouterMessage[],
+    schema: ReturnType<typeof voteSchema>,
+    options: QueryOptions
+  ): Promise<ModelResponse> {
+    const { data, error, meta } = await this.generateStructured(modelId, messages, schema, options);
+    if (!data) {
+      // An aborted seat must not move on to its fallbacks
+      return {
+        model: modelId,
+        status: options.signal?.aborted ? 'cancelled' : 'error',
+        error: `Vote failed: ${error}`,
+        meta,
+      };
+    }
+    return {
+      model: modelId,
+      status: 'success',
+      content: data.rationale,
+      vote: { choice: data.choice, confidence: data.confidence },
+      meta,
+    };
+  }
+
+  /**
+   * Have every elder that answered rank the other elders' answers, shown
+   * anonymized and shuffled, and tally the ballots into a leaderboard
+   */
+  async rankResponses(
+    question: string,
+    systemPrompt: string,
+    responses: ModelResponse[],
+    options: QueryOptions = {}
+  ): Promise<PeerRanking> {
+    const queue = options.queue ?? this.scheduler.createFlow();
+    const candidates = responses.filter((r) => !r.error && r.content).map((r) => r.model);
+
+    const ballots = await Promise.all(
+      responses.map(async (response, i): Promise<RankingBallot | undefined> => {
+        const review = preparePeerReview(i, responses, { anonymize: true, shuffle: true });
+        if (response.error || !response.content || review.entries.length < 2) {
+          return undefined;
+        }
+
+        // A seat answered by a fallback ranks with that same model
+        const { data, error, meta } = await this.generateStructured(
+          response.answeredBy || response.model,
+          [
+            { role: 'system', content: options.systemPrompts?.[i] ?? systemPrompt },
+            { role: 'user', content: buildRankingPrompt(question, review) },
+          ],
+          RankingSchema,
+          { ...options, queue, temperature: 0 }
+        );
+        if (!data) {
+          return { ranker: response.model, order: [], justifications: {}, error, meta };
+        }
+        return { ...toBallot(response.model, data, review.labels!), meta };
+      })
+    );
+
+    return tallyRankings(
+      candidates,
+      ballots.filter((ballot): ballot is RankingBallot => ballot !== undefined)
+    );
+  }
+
   /**
    * Build consensus prompt for a model based on peer responses
    */
   private buildConsensusPrompt(
-    currentModel: string,
-    ownResponse: ModelResponse,
-    allResponses: ModelResponse[]
+    review: PeerReview,
+    includesOwnAnswer: boolean,
+    declareRevision = false
   ): string {
-    let prompt = "Consider your peers' views and revise your response if needed:\n\n";
-
-    allResponses.forEach((response) => {
-      if (response.model !== currentModel && !response.error) {
-        prompt += `**${response.model}**:\n${response.content}\n\n`;
+    let prompt = includesOwnAnswer
+      ? "These are the council's answers from the last round, one of them yours. Consider them and revise your response if needed:\n\n"
+      : "Consider your peers' views and revise your response if needed:\n\n";
+
+    review.entries.forEach(({ label, response }) => {
+      prompt += `**${label}**:\n${response.content}\n\n`;
+      if (response.citations && response.citations.length > 0) {
+        prompt += `Sources:\n${response.citations.map((c) => `- ${c.title}: ${c.url}`).join('\n')}\n\n`;
       }
     });
 
     prompt += 'Based on these perspectives, would you like to revise or expand your answer?';
+    if (declareRevision) {
+      prompt += ` ${REVISION_INSTRUCTION}`;
+    }
 
     return prompt;
   }
 
-  /**
-   * Estimate cost based on token usage
-   */
-  private estimateCost(
-    model: string,
-    usage: { promptTokens: number; completionTokens: number; totalTokens: number }
-  ): number {
-    // Rough estimates - should be updated based on OpenRouter's pricing
-    const costPer1kTokens: Record<string, number> = {
-      'gpt-4o': 0.005,
-      'gpt-4o-mini': 0.0002,
-      'claude-3.5-sonnet': 0.003,
-      'claude-3-haiku': 0.00025,
-      'perplexity/sonar-pro': 0.003,
-      'perplexity/sonar': 0.001,
-      'deepseek/deepseek-r1': 0.001,
-      'google/gemini-2.0-flash-exp:free': 0,
-    };
-
-    const baseCost = 0.002; // Default cost per 1k tokens
-    const modelKey = Object.keys(costPer1kTokens).find((key) => model.includes(key));
-    const rate = modelKey ? costPer1kTokens[modelKey] : baseCost;
-
-    return (usage.totalTokens / 1000) * rate;
-  }
-
   /**
    * Stream responses from a single model
    */
   async streamModel(
     modelId: string,
     messages: OpenRouterMessage[],
-    options: QueryOptions & { onChunk?: (text: string) => void } = {}
+    options: QueryOptions = {}
   ): Promise<ModelResponse> {
+    const policy = this.retryPolicy(options);
+    const skipped = this.checkCircuit(modelId, policy);
+    if (skipped) return skipped;
+
     const startTime = Date.now();
+    const retries: RetryAttempt[] = [];
+    const queue = { waitMs: 0 };
 
     try {
-      const model =
-        options.webSearch === true
-          ? this.openrouter(`${modelId}:online`)
-          : this.openrouter(modelId);
+      const resolved = this.resolveModel(modelId, options);
+      const { model, providerMetadata } = resolved;
 
       let fullContent = '';
-      const stream = streamText({
-        model,
-        messages,
-        temperature: options.temperature ?? 0.7,
-        maxTokens: options.maxTokens,
-        abortSignal: options.signal,
-      });
+      const stream = await withRetry(
+        () =>
+          this.scheduled(modelId, options, queue, async () => {
+            let streamError: unknown;
+            const attempt = streamText({
+              model,
+              messages,
+              temperature: options.temperature ?? 0.7,
+              maxTokens: options.maxTokens,
+              abortSignal: options.signal,
+              maxRetries: 0,
+              ...(providerMetadata && { experimental_providerMetadata: providerMetadata }),
+              // streamText swallows errors; capture them so failures surface like generateText's
+              onError: ({ error }) => {
+                streamError = error;
+              },
+            });
+
+            for await (const chunk of attempt.textStream) {
+              fullContent += chunk;
+              options.onChunk?.(chunk, modelId);
+            }
 
-      for await (const chunk of stream.textStream) {
-        fullContent += chunk;
-        options.onChunk?.(chunk);
-      }
+            if (streamError) {
+              throw streamError;
+            }
+            return attempt;
+          }),
+        policy,
+        {
+          signal: options.signal,
+          history: retries,
+          // Once text has been shown, a retry would repeat it
+          canRetry: () => fullContent === '',
+        }
+      );
 
-      const latencyMs = Date.now() - startTime;
+      const latencyMs = Date.now() - startTime - queue.waitMs;
+      this.circuitBreaker.recordSuccess(getSeatModel(modelId));
 
-      const finalUsage = await stream.usage;
       return {
         model: modelId,
+        status: 'success',
         content: fullContent,
-        meta: finalUsage
-          ? {
-              promptTokens: finalUsage.promptTokens,
-              completionTokens: finalUsage.completionTokens,
-              totalTokens: finalUsage.totalTokens,
-              latencyMs,
-              estimatedCost: this.estimateCost(modelId, finalUsage),
-            }
-          : undefined,
+        citations: await this.extractCitations(resolved, await stream.providerMetadata),
+        meta: await this.buildMeta(
+          modelId,
+          this.buildUsage(resolved, await stream.usage, await stream.providerMetadata),
+          latencyMs,
+          queue.waitMs,
+          retries
+        ),
       };
     } catch (error) {
-      return {
-        model: modelId,
-        error: error instanceof Error ? error.message : String(error),
-      };
+      return this.buildErrorResponse(modelId, error, options, retries);
     }
   }
 
@@ -448,92 +1123,101 @@ export class CouncilClient {
     messages: OpenRouterMessage[],
     schema: z.Schema<T>,
     options: QueryOptions = {}
-  ): Promise<{ data?: T; error?: string }> {
+  ): Promise<{ data?: T; error?: string; meta?: ModelResponse['meta'] }> {
+    const policy = this.retryPolicy(options);
+    const skipped = this.checkCircuit(modelId, policy);
+    if (skipped) return { error: skipped.error };
+
+    const startTime = Date.now();
+    const retries: RetryAttempt[] = [];
+    const queue = { waitMs: 0 };
+
     try {
-      const model = this.openrouter(modelId);
-      const { object } = await generateObject({
-        model,
-        messages,
-        schema,
-        temperature: options.temperature ?? 0.7,
-        maxTokens: options.maxTokens,
-      });
+      const resolved = this.resolveModel(modelId);
+      const { object, usage, providerMetadata } = await withRetry(
+        () =>
+          this.scheduled(modelId, options, queue, () =>
+            generateObject({
+              model: resolved.model,
+              messages,
+              schema,
+              temperature: options.temperature ?? 0.7,
+              maxTokens: options.maxTokens,
+              abortSignal: options.signal,
+              maxRetries: 0,
+            })
+          ),
+        policy,
+        { signal: options.signal, history: retries }
+      );
+      this.circuitBreaker.recordSuccess(getSeatModel(modelId));
 
-      return { data: object };
+      return {
+        data: object,
+        meta: await this.buildMeta(
+          modelId,
+          this.buildUsage(resolved, usage, providerMetadata),
+          Date.now() - startTime - queue.waitMs,
+          queue.waitMs,
+          retries
+        ),
+      };
     } catch (error) {
-      return { error: error instanceof Error ? error.message : String(error) };
+      const { meta } = this.buildErrorResponse(modelId, error, options, retries);
+      return { error: error instanceof Error ? error.message : String(error), meta };
     }
   }
 
   /**
-   * Get available models from OpenRouter
+   * Get available models from every registered provider
    */
   async getAvailableModels(): Promise<OpenRouterModel[]> {
-    try {
-      const response = await fetch('https://openrouter.ai/api/v1/models', {
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          'HTTP-Referer': 'https://github.com/council-of-elders',
-          'X-Title': 'Council of Elders',
-        },
-      });
+    return this.listModels((provider, error) =>
+      console.error(`Error fetching ${provider.name} models:`, error)
+    );
+  }
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch models: ${response.statusText}`);
-      }
+  private async listModels(
+    onError?: (provider: ModelProvider, error: unknown) => void
+  ): Promise<OpenRouterModel[]> {
+    const results = await Promise.all(
+      [...this.providers.values()].map(async (provider) => {
+        try {
+          return await provider.listModels();
+        } catch (error) {
+          onError?.(provider, error);
+          return [];
+        }
+      })
+    );
 
-      const data = (await response.json()) as { data: OpenRouterModel[] };
-      return data.data || [];
-    } catch (error) {
-      console.error('Error fetching OpenRouter models:', error);
-      return [];
-    }
+    return results.flat();
   }
 
   /**
-   * Generate structured synthesis using Zod schema
+   * Generate a synthesis matching `SynthesisSchema`. The summary becomes the
+   * response's content and the full object is kept in `structured`.
    */
   async generateStructuredSynthesis(
     modelId: string,
     messages: OpenRouterMessage[],
     options: QueryOptions = {}
-  ): Promise<{ synthesis: string; meta?: Record<string, unknown> }> {
-    const startTime = Date.now();
-
-    try {
-      const model = this.openrouter(modelId);
-      const { object } = await withRetry(
-        () =>
-          generateObject({
-            model,
-            messages,
-            schema: SynthesisSchema,
-            temperature: options.temperature ?? 0.7,
-            maxTokens: options.maxTokens,
-            abortSignal: options.signal,
-          }),
-        {
-          retries: 2,
-          delay: 1000,
-        }
-      );
-
-      const latencyMs = Date.now() - startTime;
-
+  ): Promise<ModelResponse> {
+    const { data, error, meta } = await this.generateStructured(
+      modelId,
+      messages,
+      SynthesisSchema,
+      options
+    );
+
+    if (!data) {
       return {
-        synthesis: object.summary,
-        meta: {
-          latencyMs,
-          keyPoints: object.keyPoints?.length || 0,
-          perspectives: object.perspectives?.length || 0,
-          disagreements: object.disagreements?.length || 0,
-          confidence: object.confidence,
-        },
+        model: modelId,
+        status: 'error',
+        error: `Structured synthesis failed: ${error}`,
+        meta,
       };
-    } catch (error) {
-      throw new Error(
-        `Structured synthesis failed: ${error instanceof Error ? error.message : String(error)}`
-      );
     }
+    return { model: modelId, status: 'success', content: data.summary, structured: data, meta };
   }
 }
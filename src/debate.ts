@@ -0,0 +1,130 @@
+import { getSeatIds } from './config.js';
+import { ModelResponse } from './council-client.js';
+import { ModelConfig } from './types.js';
+
+export type DebateRole = 'proponent' | 'critic' | 'judge';
+
+export interface DebateSeat {
+  model: string;
+  role: DebateRole;
+  /** The option a proponent argues for */
+  position?: string;
+}
+
+/**
+ * Assign debate roles to a council's seats. Seats without a role are
+ * proponents, and proponents without a position argue options A, B, ...
+ * in seat order. Exactly one seat must be the judge.
+ */
+export function assignDebateSeats(models: ModelConfig[]): DebateSeat[] {
+  let proponents = 0;
+  const seatIds = getSeatIds(models);
+  const seats = models.map((model, i): DebateSeat => {
+    const role = (typeof model === 'object' && model.role) || 'proponent';
+    const position = typeof model === 'object' ? model.position : undefined;
+    if (role !== 'proponent') {
+      return { model: seatIds[i], role };
+    }
+    return {
+      model: seatIds[i],
+      role,
+      position: position || `Option ${String.fromCharCode(65 + proponents++)}`,
+    };
+  });
+
+  const judges = seats.filter((seat) => seat.role === 'judge').length;
+  if (judges !== 1) {
+    throw new Error(`Debate mode needs exactly one seat with role "judge" (found ${judges})`);
+  }
+  if (seats.length < 3) {
+    throw new Error('Debate mode needs at least two debaters besides the judge');
+  }
+
+  return seats;
+}
+
+/**
+ * Label shown for a seat's role in transcripts, e.g. `Proponent (Option A)`
+ */
+export function roleLabel(seat: DebateSeat): string {
+  switch (seat.role) {
+    case 'proponent':
+      return `Proponent (${seat.position})`;
+    case 'critic':
+      return "Critic (Devil's Advocate)";
+    case 'judge':
+      return 'Judge';
+  }
+}
+
+/**
+ * Odd rounds are arguments, even rounds rebut the other side's latest arguments
+ */
+export function debateTurn(round: number): 'argument' | 'rebuttal' {
+  return round % 2 === 1 ? 'argument' : 'rebuttal';
+}
+
+/**
+ * System prompt assigning a debater or the judge their role
+ */
+export function buildRolePrompt(seat: DebateSeat, systemPrompt: string): string {
+  const instructions: Record<DebateRole, string> = {
+    proponent: `You are taking part in a structured debate as a proponent of: ${seat.position}. Make the strongest honest case for this position and answer objections to it.`,
+    critic:
+      "You are taking part in a structured debate as the devil's advocate. Do not defend any option; probe every position for weaknesses, hidden costs and unstated assumptions.",
+    judge:
+      'You are the judge of a structured debate. Weigh the arguments on their merits, not on their confidence, and decide which position is best supported.',
+  };
+  return [systemPrompt, instructions[seat.role]].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Prompt for a debater's turn in rounds after the opening arguments
+ */
+export function buildTurnPrompt(
+  round: number,
+  seat: DebateSeat,
+  seats: DebateSeat[],
+  previousRound: ModelResponse[]
+): string {
+  let prompt = 'The other debaters said:\n\n';
+
+  previousRound.forEach((response, i) => {
+    if (seats[i] !== seat && !response.error && response.content) {
+      prompt += `**${roleLabel(seats[i])}**:\n${response.content}\n\n`;
+    }
+  });
+
+  prompt +=
+    debateTurn(round) === 'rebuttal'
+      ? 'Rebut their strongest points directly. Concede what is right and explain why your position still holds.'
+      : 'Present your next argument, building on the exchange so far. Do not repeat points already made.';
+
+  return prompt;
+}
+
+/**
+ * Prompt asking the judge for a verdict on the full transcript
+ */
+export function buildVerdictPrompt(
+  topic: string,
+  seats: DebateSeat[],
+  rounds: ModelResponse[][]
+): string {
+  let prompt = `Debate topic: "${topic}"\n\n`;
+
+  rounds.forEach((round, roundIndex) => {
+    prompt += `=== Round ${roundIndex + 1} (${debateTurn(roundIndex + 1)}s) ===\n`;
+    round.forEach((response, i) => {
+      if (!response.error && response.content) {
+        prompt += `\n${roleLabel(seats[i])}:\n${response.content}\n`;
+      }
+    });
+    prompt += '\n';
+  });
+
+  prompt +=
+    'Deliver your verdict. Start with "Verdict:" followed by the winning position, then give your reasoning: which arguments were decisive, which objections went unanswered, and any conditions under which another position would win.';
+
+  return prompt;
+}
@@ -1,16 +1,48 @@
 #!/usr/bin/env node
+import 'reflect-metadata';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 
-import { loadConfig, getModelId, defaultSystemPrompt } from './config.js';
-import { CouncilClient, QueryOptions, OpenRouterMessage } from './council-client.js';
+import { container } from './container.js';
+import { maxRoundsFor } from './convergence.js';
+import { ICouncilService, IConfigService, ISessionService } from './interfaces.js';
+import { McpPrompts } from './mcp-prompts.js';
+import { McpResources } from './mcp-resources.js';
+import {
+  appendFileContents,
+  applyQueryOptions,
+  isSingleRound,
+  resolveToolFiles,
+  toolInputProperties,
+} from './query-options.js';
+import { formatStructuredSynthesis } from './synthesis.js';
+import { buildToolResult, toolOutputSchema } from './tool-result.js';
+import { CliOptions, ConsensusResponse, CouncilConfig, CouncilQueryHooks } from './types.js';
+
+/**
+ * Arguments of the consult tools: the query options the CLI takes, plus the
+ * seats and system prompt a caller may choose instead of a council's
+ */
+type ToolArguments = CliOptions & {
+  query: string;
+  models?: string[];
+  systemPrompt?: string;
+};
 
 async function main() {
-  const config = await loadConfig();
-  const councilClient = new CouncilClient({
-    apiKey: config.openRouterApiKey,
-  });
+  const configService = container.resolve<IConfigService>('IConfigService');
+  const councilService = container.resolve<ICouncilService>('ICouncilService');
+  const sessionService = container.resolve<ISessionService>('ISessionService');
+  await configService.loadConfig();
 
   const server = new Server(
     {
@@ -20,15 +52,18 @@ async function main() {
     {
       capabilities: {
         tools: {},
+        resources: {},
+        prompts: {},
       },
     }
   );
 
-  server.setRequestHandler(ListToolsRequestSchema, () => {
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
     interface Tool {
       name: string;
       description: string;
       inputSchema: Record<string, unknown>;
+      outputSchema: Record<string, unknown>;
     }
     const tools: Tool[] = [
       {
@@ -54,173 +89,123 @@ async function main() {
               type: 'string',
               description: 'Optional system prompt to provide context to all models',
             },
-            temperature: {
-              type: 'number',
-              description: 'Temperature for responses (0-1). Default is 0.7',
-              minimum: 0,
-              maximum: 1,
-            },
-            rounds: {
-              type: 'number',
-              description: 'Number of consensus rounds (default: 1)',
-              minimum: 1,
-            },
+            ...toolInputProperties(),
           },
           required: ['query'],
         },
+        outputSchema: toolOutputSchema,
       },
     ];
 
     // Add tools for each configured council
-    if (config.coeConfig.councils) {
-      for (const [councilName, councilConfig] of Object.entries(config.coeConfig.councils)) {
-        tools.push({
-          name: `consult_${councilName}_council`,
-          description: `Consult the ${councilName} council - ${councilConfig.system || 'queries specialized LLMs for their wisdom'}`,
-          inputSchema: {
-            type: 'object',
-            properties: {
-              query: {
-                type: 'string',
-                description: `The question or topic to ask the ${councilName} council`,
-              },
-              systemPrompt: {
-                type: 'string',
-                description: "Optional system prompt to override the council's default prompt",
-              },
-              temperature: {
-                type: 'number',
-                description: `Temperature for responses (0-1). Default is ${councilConfig.defaults?.temperature || 0.7}`,
-                minimum: 0,
-                maximum: 1,
-              },
-              rounds: {
-                type: 'number',
-                description: `Number of consensus rounds (default: ${councilConfig.rounds || 1})`,
-                minimum: 1,
-              },
+    for (const councilName of configService.getAllCouncils()) {
+      const councilConfig = await configService.loadConfig(councilName);
+      tools.push({
+        name: `consult_${councilName}_council`,
+        description: `Consult the ${councilName} council - ${councilConfig.system || 'queries specialized LLMs for their wisdom'}`,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              description: `The question or topic to ask the ${councilName} council`,
+            },
+            systemPrompt: {
+              type: 'string',
+              description: "Optional system prompt to override the council's default prompt",
             },
-            required: ['query'],
+            ...toolInputProperties(),
           },
-        });
-      }
+          required: ['query'],
+        },
+        outputSchema: toolOutputSchema,
+      });
     }
 
     return { tools };
   });
 
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const toolName = request.params.name;
-    const args = request.params.arguments as {
-      query: string;
-      models?: string[];
-      systemPrompt?: string;
-      temperature?: number;
-      rounds?: number;
-    };
-    const query = args.query;
-    let models: string[];
-    let systemPrompt: string;
-    let temperature: number;
-    let rounds: number;
+    const args = request.params.arguments as unknown as ToolArguments;
 
     // Handle council-specific tools
     let councilName: string | undefined;
     if (toolName.startsWith('consult_') && toolName.endsWith('_council')) {
       councilName = toolName.replace('consult_', '').replace('_council', '');
 
-      if (!config.coeConfig.councils || !config.coeConfig.councils[councilName]) {
+      if (!configService.getAllCouncils().includes(councilName)) {
         throw new Error(`Unknown council: ${councilName}`);
       }
-
-      const councilConfig = config.coeConfig.councils[councilName];
-      models = councilConfig.models.map((m) => getModelId(m));
-      systemPrompt =
-        args.systemPrompt || councilConfig.system || config.coeConfig.system || defaultSystemPrompt;
-      temperature = args.temperature ?? councilConfig.defaults?.temperature ?? 0.7;
-      rounds = args.rounds || councilConfig.rounds || 1;
-    } else if (toolName === 'consult_elders') {
-      // Handle the generic consult_elders tool
-      models = args.models || config.coeConfig.models.map((m) => getModelId(m));
-      systemPrompt = args.systemPrompt || config.coeConfig.system || defaultSystemPrompt;
-      temperature = args.temperature ?? 0.7;
-      rounds = args.rounds || 1;
-    } else {
+    } else if (toolName !== 'consult_elders') {
       throw new Error(`Unknown tool: ${toolName}`);
     }
 
     try {
-      if (rounds === 1) {
-        // Simple query
-        const messages: OpenRouterMessage[] = [
-          { role: 'system', content: systemPrompt || '' },
-          { role: 'user', content: query },
-        ];
-
-        const queryOptions: QueryOptions = {
-          temperature,
-        };
-
-        const responses = await councilClient.queryMultipleModels(models, messages, queryOptions);
-
-        const formattedResponses = responses
-          .map((resp) => {
-            if (resp.error) {
-              return `## ${resp.model}\n\n**Error:** ${resp.error}\n`;
-            }
-            return `## ${resp.model}\n\n${resp.content}\n`;
-          })
-          .join('\n---\n\n');
-
-        const title = councilName
-          ? `# ${councilName.charAt(0).toUpperCase() + councilName.slice(1)} Council Response`
-          : '# Council of Elders Response';
+      const council = await configService.loadConfig(councilName);
+      const query = args.files?.length
+        ? await appendFileContents(
+            args.query,
+            await resolveToolFiles(args.files, configService.getMcp()?.filesRoot)
+          )
+        : args.query;
+      const config = applyQueryOptions(
+        {
+          ...council,
+          // Chosen models take the seats, without the council's seat prompts
+          ...(args.models ? { models: args.models } : {}),
+          ...(args.systemPrompt ? { system: args.systemPrompt } : {}),
+        },
+        args
+      );
 
+      // Progress goes to the client instead of spinners, cancelling the call
+      // aborts its requests, and without anyone to confirm, queries over
+      // budget are refused
+      const progressToken = request.params._meta?.progressToken;
+      let settled = false;
+      const hooks: CouncilQueryHooks = {
+        ...progressHooks(config, (progress, total, message) => {
+          // Nobody listens once the call is cancelled or answered
+          if (progressToken === undefined || extra.signal.aborted || settled) return;
+          extra
+            .sendNotification({
+              method: 'notifications/progress',
+              params: { progressToken, progress, total, message },
+            })
+            .catch(() => {});
+        }),
+        signal: extra.signal,
+      };
+      const startedAt = new Date();
+      const consultation: Promise<ConsensusResponse> = isSingleRound(config)
+        ? councilService.query(query, config, hooks).then((answers) => ({ rounds: [answers] }))
+        : councilService.queryWithConsensus(query, config, hooks);
+      const result = await consultation.finally(() => {
+        settled = true;
+      });
+      // The client has stopped listening
+      if (extra.signal.aborted) {
         return {
-          content: [
-            {
-              type: 'text',
-              text: `${title}\n\n${formattedResponses}`,
-            },
-          ],
-        };
-      } else {
-        // Multi-round consensus
-        const queryOptions: QueryOptions = {
-          temperature,
+          content: [{ type: 'text', text: 'Consultation cancelled' }],
+          isError: true,
         };
+      }
+      await recordSession(query, config, result, startedAt, councilName);
 
-        const allResponses = await councilClient.runConsensusRounds(
-          models,
-          query,
-          systemPrompt || '',
-          rounds,
-          queryOptions
-        );
-
-        const finalResponses = allResponses[allResponses.length - 1];
-        const formattedResponses = finalResponses
-          .map((resp) => {
-            if (resp.error) {
-              return `## ${resp.model}\n\n**Error:** ${resp.error}\n`;
-            }
-            return `## ${resp.model}\n\n${resp.content}\n`;
-          })
-          .join('\n---\n\n');
-
-        const title = councilName
-          ? `# ${councilName.charAt(0).toUpperCase() + councilName.slice(1)} Council Response (Round ${rounds})`
-          : `# Council of Elders Response (Round ${rounds})`;
+      const title = councilName
+        ? `# ${councilName.charAt(0).toUpperCase() + councilName.slice(1)} Council Response`
+        : '# Council of Elders Response';
+      const structured = result.synthesis?.structured;
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `${title}\n\n${formattedResponses}`,
-            },
-          ],
-        };
-      }
+      return {
+        content: [
+          { type: 'text', text: formatResult(title, result, config) },
+          // The synthesis object itself, as JSON for clients that parse it
+          ...(structured ? [{ type: 'text', text: JSON.stringify(structured, null, 2) }] : []),
+        ],
+        structuredContent: buildToolResult(result, councilName),
+      };
     } catch (error) {
       return {
         content: [
@@ -234,9 +219,148 @@ async function main() {
     }
   });
 
+  const resources = new McpResources(configService, councilService, sessionService);
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: await resources.list(),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, () => ({
+    resourceTemplates: resources.templates(),
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+    contents: await resources.read(request.params.uri),
+  }));
+
+  const prompts = new McpPrompts(configService);
+
+  server.setRequestHandler(ListPromptsRequestSchema, () => ({
+    prompts: prompts.list(),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, (request) =>
+    prompts.get(request.params.name, request.params.arguments)
+  );
+
+  /**
+   * Keep the consultation in the session history, like a query from the CLI
+   */
+  async function recordSession(
+    prompt: string,
+    config: CouncilConfig,
+    result: ConsensusResponse,
+    startedAt: Date,
+    council?: string
+  ): Promise<void> {
+    try {
+      const session = sessionService.create(config, council);
+      session.turns.push({
+        prompt,
+        council,
+        result,
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+      });
+      await sessionService.save(session);
+    } catch (error) {
+      console.error('Could not save the session:', error instanceof Error ? error.message : error);
+    }
+  }
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('Council of Elders MCP server running...');
 }
 
+/**
+ * Report a consultation's progress: each elder's answer in each round, and
+ * the start and end of a ranking or synthesis. The total assumes every round
+ * runs, so a discussion that converges early finishes short of it.
+ */
+function progressHooks(
+  config: CouncilConfig,
+  report: (progress: number, total: number, message: string) => void
+): Pick<CouncilQueryHooks, 'onProgress' | 'onStage'> {
+  // The judge of a debate speaks once, after the rounds; a ranking or
+  // synthesis is a step as it starts and as it completes
+  const rounds = maxRoundsFor(config);
+  const total =
+    config.mode === 'debate'
+      ? (config.models.length - 1) * rounds + 1
+      : config.models.length * rounds +
+        (!config.choices && (config.defaults?.rank || config.defaults?.single) ? 2 : 0);
+  let progress = 0;
+
+  return {
+    onProgress: (round, model, status) => {
+      if (status === 'querying' || status === 'preparing') return;
+      const outcome =
+        status === 'complete'
+          ? 'answered'
+          : status === 'timedOut'
+            ? 'timed out'
+            : status === 'skipped'
+              ? 'sits out'
+              : status;
+      report(++progress, total, `Round ${round}: ${model} ${outcome}`);
+    },
+    onStage: (stage, status) => {
+      const step = stage === 'ranking' ? 'Ranking' : 'Synthesis';
+      report(++progress, total, `${step} ${status}`);
+    },
+  };
+}
+
+/**
+ * Markdown of a consultation: the final round's answers, then whatever
+ * concluded the discussion
+ */
+function formatResult(title: string, result: ConsensusResponse, config: CouncilConfig): string {
+  const roundCount = result.rounds.length;
+  const rounds = maxRoundsFor(config);
+  let text = roundCount > 1 ? `${title} (Round ${roundCount})\n\n` : `${title}\n\n`;
+
+  if (result.stopped === 'budget') {
+    text += `*Stopped: budget limit reached after round ${roundCount} of ${rounds}*\n\n`;
+  } else if (result.convergedAtRound) {
+    text += `*Consensus reached in round ${result.convergedAtRound} of ${rounds}*\n\n`;
+  }
+
+  text += result.rounds[roundCount - 1]
+    .filter((resp) => resp.status !== 'cancelled')
+    .map((resp) => {
+      if (resp.error) {
+        return `## ${resp.model}\n\n**Error:** ${resp.error}\n`;
+      }
+      const vote = resp.vote ? `**Vote:** ${resp.vote.choice}\n\n` : '';
+      return `## ${resp.model}\n\n${vote}${resp.content}\n`;
+    })
+    .join('\n---\n\n');
+
+  if (result.vote) {
+    text += `\n\n---\n\n## Vote\n\n${
+      result.vote.winner
+        ? `**Winner:** ${result.vote.winner} (${Math.round(result.vote.agreement * 100)}% agreement)`
+        : '*No elder cast a vote*'
+    }\n`;
+  }
+  if (result.ranking) {
+    text += `\n\n---\n\n## Peer Ranking\n\n${result.ranking.leaderboard
+      .map((entry, i) => `${i + 1}. ${entry.model} (${entry.points} points)`)
+      .join('\n')}\n`;
+  }
+  if (result.verdict) {
+    text += `\n\n---\n\n## Verdict\n\n${result.verdict.content || `**Error:** ${result.verdict.error}`}\n`;
+  }
+  if (result.synthesis) {
+    const synthesis = result.synthesis.structured
+      ? formatStructuredSynthesis(result.synthesis.structured)
+      : result.synthesis.content || `**Error:** ${result.synthesis.error}\n`;
+    text += `\n\n---\n\n## Synthesis\n\n${synthesis}`;
+  }
+
+  return text;
+}
+
 main().catch(console.error);
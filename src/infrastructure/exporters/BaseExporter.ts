@@ -1,14 +1,19 @@
 import * as fs from 'fs/promises';
 
-import { ModelResponse } from '../../council-client.js';
+import { collectCitations } from '../../citations.js';
+import { ModelResponse, UrlCitation } from '../../council-client.js';
 import { IExporter } from '../../interfaces.js';
-import { ConsensusResponse } from '../../types.js';
+import { describePeerLabels } from '../../peer-review.js';
+import { PeerRanking } from '../../ranking.js';
+import { ChatTurn, ConsensusResponse } from '../../types.js';
+import { VoteTally } from '../../voting.js';
 
 export interface ExportData {
   timestamp: string;
   prompt: string;
   council?: string;
   rounds?: number;
+  convergedAtRound?: number;
   temperature?: number;
   options?: {
     showModels?: boolean;
@@ -17,6 +22,10 @@ export interface ExportData {
   };
   responses?: ModelResponse[][];
   synthesis?: ModelResponse;
+  verdict?: ModelResponse;
+  ranking?: PeerRanking;
+  vote?: VoteTally;
+  citations?: UrlCitation[];
   metadata?: {
     totalCost: number;
     totalTokens: number;
@@ -29,12 +38,58 @@ export abstract class BaseExporter implements IExporter {
   abstract formatData(data: ExportData): string;
   abstract getExtension(): string;
 
+  /**
+   * De-anonymize the peers an elder reviewed, naming each seat the way the
+   * export titles it
+   */
+  protected describePeers(response: ModelResponse, round: ModelResponse[], data: ExportData) {
+    return describePeerLabels(response.peerLabels || {}, (model) =>
+      this.seatName(model, round, data)
+    );
+  }
+
+  protected seatName(model: string, round: ModelResponse[], data: ExportData): string {
+    return data.options?.showModels
+      ? model
+      : `Elder ${round.findIndex((r) => r.model === model) + 1}`;
+  }
+
+  /**
+   * Format the turns of a chat; by default each turn reads like a session of its own
+   */
+  formatTranscript(turns: ExportData[]): string {
+    return turns.map((turn) => this.formatData(turn)).join('\n\n');
+  }
+
   async export(data: ModelResponse[] | ConsensusResponse, outputPath?: string): Promise<void> {
     const exportData = this.prepareExportData(data);
-    const content = this.formatData(exportData);
+    await this.write(this.formatData(exportData), outputPath);
+  }
+
+  /**
+   * The turns of a chat or session in this exporter's format, each dated
+   * when it was asked
+   */
+  transcript(turns: ChatTurn[], options: ExportData['options'] = {}): string {
+    return this.formatTranscript(
+      turns.map(({ prompt, council, result, startedAt }) => {
+        const data = this.prepareExportData(result);
+        return { ...data, timestamp: startedAt || data.timestamp, prompt, council, options };
+      })
+    );
+  }
+
+  async exportTranscript(
+    turns: ChatTurn[],
+    options: ExportData['options'] = {},
+    outputPath?: string
+  ): Promise<void> {
+    await this.write(this.transcript(turns, options), outputPath, 'coe-chat');
+  }
 
+  private async write(content: string, outputPath?: string, prefix = 'coe-export'): Promise<void> {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const filename = outputPath || `coe-export-${timestamp}.${this.getExtension()}`;
+    const filename = outputPath || `${prefix}-${timestamp}.${this.getExtension()}`;
 
     await fs.writeFile(filename, content, 'utf-8');
 
@@ -44,24 +99,33 @@ export abstract class BaseExporter implements IExporter {
   private prepareExportData(data: ModelResponse[] | ConsensusResponse): ExportData {
     const timestamp = new Date().toISOString();
 
-    // Check if it's a ConsensusResponse
-    if ('rounds' in data && 'synthesis' in data) {
+    // Check if it's a ConsensusResponse; single rounds kept in a session have no synthesis key
+    if (!Array.isArray(data)) {
+      const citations =
+        data.citations || collectCitations([...data.rounds.flat(), data.synthesis, data.verdict]);
       return {
         timestamp,
         prompt: '', // This should be passed from the caller
         rounds: data.rounds.length,
+        ...(data.convergedAtRound ? { convergedAtRound: data.convergedAtRound } : {}),
         responses: data.rounds,
         synthesis: data.synthesis,
+        ...(data.verdict ? { verdict: data.verdict } : {}),
+        ...(data.ranking ? { ranking: data.ranking } : {}),
+        ...(data.vote ? { vote: data.vote } : {}),
+        ...(citations.length > 0 ? { citations } : {}),
         metadata: data.metadata,
       };
     }
 
     // It's a simple ModelResponse array
+    const citations = collectCitations(data);
     return {
       timestamp,
       prompt: '', // This should be passed from the caller
       rounds: 1,
-      responses: [data as ModelResponse[]],
+      responses: [data],
+      ...(citations.length > 0 ? { citations } : {}),
     };
   }
 }
@@ -11,4 +11,8 @@ export class JsonExporter extends BaseExporter {
   formatData(data: ExportData): string {
     return JSON.stringify(data, null, 2);
   }
+
+  formatTranscript(turns: ExportData[]): string {
+    return JSON.stringify({ turns }, null, 2);
+  }
 }
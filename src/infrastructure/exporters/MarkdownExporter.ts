@@ -1,5 +1,10 @@
 import { injectable } from 'tsyringe';
 
+import { ModelResponse } from '../../council-client.js';
+import { PeerRanking } from '../../ranking.js';
+import { formatStructuredSynthesis } from '../../synthesis.js';
+import { VoteTally } from '../../voting.js';
+
 import { BaseExporter, ExportData } from './BaseExporter.js';
 
 @injectable()
@@ -8,6 +13,10 @@ export class MarkdownExporter extends BaseExporter {
     return 'md';
   }
 
+  formatTranscript(turns: ExportData[]): string {
+    return turns.map((turn) => this.formatData(turn)).join('\n---\n\n');
+  }
+
   formatData(data: ExportData): string {
     let md = `# Council of Elders Session\n\n`;
     md += `**Date:** ${new Date(data.timestamp).toLocaleString()}\n`;
@@ -20,6 +29,10 @@ export class MarkdownExporter extends BaseExporter {
       md += `**Rounds:** ${data.rounds}\n`;
     }
 
+    if (data.convergedAtRound) {
+      md += `**Consensus reached:** round ${data.convergedAtRound}\n`;
+    }
+
     if (data.temperature !== undefined) {
       md += `**Temperature:** ${data.temperature}\n`;
     }
@@ -31,7 +44,11 @@ export class MarkdownExporter extends BaseExporter {
     md += `\n## Prompt\n\n${data.prompt || 'No prompt provided'}\n\n`;
 
     if (data.options?.synthesized && data.synthesis) {
-      md += `## Synthesized Response\n\n${data.synthesis.content || data.synthesis.error}\n\n`;
+      md += `## Synthesized Response\n\n${
+        data.synthesis.structured
+          ? formatStructuredSynthesis(data.synthesis.structured)
+          : `${data.synthesis.content || data.synthesis.error}\n\n`
+      }`;
     }
 
     if (data.responses && data.responses.length > 0) {
@@ -44,14 +61,33 @@ export class MarkdownExporter extends BaseExporter {
 
         round.forEach((response, responseIndex) => {
           const elderTitle = data.options?.showModels
-            ? response.model
+            ? [response.model, response.answeredBy].filter(Boolean).join(' → ')
             : `Elder ${responseIndex + 1}`;
-          md += `#### ${elderTitle}\n\n`;
+          md += `#### ${[elderTitle, response.role].filter(Boolean).join(' — ')}\n\n`;
 
-          if (response.error) {
+          if (response.status === 'cancelled') {
+            md += `*Cancelled*\n\n`;
+          } else if (response.status === 'timedOut') {
+            md += `*⏱ ${response.error}*\n\n`;
+          } else if (response.error) {
             md += `*Error: ${response.error}*\n\n`;
           } else {
+            if (response.vote) {
+              md += `**Vote:** ${response.vote.choice} (${Math.round(response.vote.confidence * 100)}% confident)\n\n`;
+            }
             md += `${response.content}\n\n`;
+
+            if (response.peerLabels) {
+              md += `*Reviewed peers as: ${this.describePeers(response, round, data)}*\n\n`;
+            }
+
+            if (response.citations && response.citations.length > 0) {
+              md += `**Sources:**\n`;
+              response.citations.forEach((citation) => {
+                md += `- [${citation.title}](${citation.url})\n`;
+              });
+              md += `\n`;
+            }
           }
 
           // Add metadata if requested
@@ -66,6 +102,30 @@ export class MarkdownExporter extends BaseExporter {
       });
     }
 
+    if (data.ranking && data.responses) {
+      md += this.formatRanking(data.ranking, data.responses[data.responses.length - 1], data);
+    }
+
+    if (data.vote && data.responses) {
+      md += this.formatVote(data.vote, data.responses[data.responses.length - 1], data);
+    }
+
+    if (data.verdict) {
+      md += `## Verdict\n\n`;
+      if (data.options?.showModels) {
+        md += `*Judge: ${data.verdict.model}*\n\n`;
+      }
+      md += `${data.verdict.content || `*Error: ${data.verdict.error}*`}\n\n`;
+    }
+
+    if (data.citations && data.citations.length > 0) {
+      md += `## Sources\n\n`;
+      data.citations.forEach((citation, i) => {
+        md += `${i + 1}. [${citation.title}](${citation.url})\n`;
+      });
+      md += `\n`;
+    }
+
     // Add session metadata
     if (data.metadata) {
       md += `## Session Metadata\n\n`;
@@ -77,4 +137,65 @@ export class MarkdownExporter extends BaseExporter {
 
     return md;
   }
+
+  private formatVote(tally: VoteTally, round: ModelResponse[], data: ExportData): string {
+    let md = `## Vote\n\n| Choice | Votes | Weight |\n|---|---|---|\n`;
+    tally.choices.forEach((choice) => {
+      md += `| ${choice} | ${tally.counts[choice].votes} | ${tally.counts[choice].weight.toFixed(2)} |\n`;
+    });
+
+    if (!tally.winner) {
+      return md + `\n*No elder cast a vote*\n\n`;
+    }
+    md += `\n**Winner:** ${tally.winner} (${Math.round(tally.agreement * 100)}% agreement)\n`;
+    if (tally.weightedWinner !== tally.winner) {
+      md += `**Confidence-weighted winner:** ${tally.weightedWinner}\n`;
+    }
+
+    if (tally.dissent.length > 0) {
+      md += `\n### Dissent\n\n`;
+      tally.dissent.forEach(({ model, choice, rationale }) => {
+        md += `- **${this.seatName(model, round, data)}** voted ${choice}: ${rationale}\n`;
+      });
+    }
+
+    return md + `\n`;
+  }
+
+  private formatRanking(ranking: PeerRanking, round: ModelResponse[], data: ExportData): string {
+    const name = (model: string) => this.seatName(model, round, data);
+    let md = `## Peer Ranking\n\n`;
+
+    md += `| Place | Elder | Points | First places |\n|---|---|---|---|\n`;
+    ranking.leaderboard.forEach((entry, i) => {
+      md += `| ${i + 1} | ${name(entry.model)} | ${entry.points} | ${entry.firstPlaces} |\n`;
+    });
+
+    const candidates = ranking.leaderboard.map((entry) => entry.model);
+    md += `\n### Ranking Matrix\n\nPlace each ranker (row) gave each answer (column).\n\n`;
+    md += `| Ranker | ${candidates.map(name).join(' | ')} |\n`;
+    md += `|---|${candidates.map(() => '---|').join('')}\n`;
+    ranking.ballots.forEach((ballot) => {
+      const places = candidates.map((model) =>
+        ballot.error ? '-' : (ranking.matrix[ballot.ranker]?.[model] ?? '-')
+      );
+      md += `| ${name(ballot.ranker)} | ${places.join(' | ')} |\n`;
+    });
+
+    md += `\n### Justifications\n\n`;
+    ranking.ballots.forEach((ballot) => {
+      md += `**${name(ballot.ranker)}**${ballot.error ? `: *Error: ${ballot.error}*` : ''}\n\n`;
+      ballot.order.forEach((model, i) => {
+        md += `${i + 1}. ${name(model)}: ${ballot.justifications[model]}\n`;
+      });
+      md += `\n`;
+    });
+
+    const winner = round.find((r) => r.model === ranking.winner);
+    if (winner) {
+      md += `### Best Answer: ${name(winner.model)}\n\n${winner.content}\n\n`;
+    }
+
+    return md;
+  }
 }
@@ -22,6 +22,10 @@ export class TextExporter extends BaseExporter {
       text += `Rounds: ${data.rounds}\n`;
     }
 
+    if (data.convergedAtRound) {
+      text += `Consensus reached: round ${data.convergedAtRound}\n`;
+    }
+
     if (data.temperature !== undefined) {
       text += `Temperature: ${data.temperature}\n`;
     }
@@ -32,6 +36,27 @@ export class TextExporter extends BaseExporter {
     if (data.options?.synthesized && data.synthesis) {
       text += `SYNTHESIZED RESPONSE:\n${'-'.repeat(50)}\n`;
       text += `${data.synthesis.content || data.synthesis.error}\n\n`;
+
+      const structured = data.synthesis.structured;
+      if (structured) {
+        const section = (title: string, items: string[] | undefined) => {
+          if (items && items.length > 0) {
+            text += `${title}:\n${items.map((item) => `  - ${item}`).join('\n')}\n\n`;
+          }
+        };
+        text += `Confidence: ${Math.round(structured.confidence * 100)}%\n\n`;
+        section('Key Points', structured.keyPoints);
+        section('Disagreements', structured.disagreements);
+        section('Recommendations', structured.recommendations);
+        section(
+          'Perspectives',
+          structured.perspectives.map((p) => `${p.model}: ${p.contribution}`)
+        );
+        section(
+          'Citations',
+          structured.citations?.map((c) => `${c.source} - ${c.url}`)
+        );
+      }
     }
 
     if (data.responses && data.responses.length > 0) {
@@ -44,14 +69,33 @@ export class TextExporter extends BaseExporter {
 
         round.forEach((response, responseIndex) => {
           const elderTitle = data.options?.showModels
-            ? response.model
+            ? [response.model, response.answeredBy].filter(Boolean).join(' → ')
             : `Elder ${responseIndex + 1}`;
-          text += `${elderTitle}:\n`;
+          text += `${[elderTitle, response.role].filter(Boolean).join(' — ')}:\n`;
 
-          if (response.error) {
+          if (response.status === 'cancelled') {
+            text += `[Cancelled]\n\n`;
+          } else if (response.status === 'timedOut') {
+            text += `[${response.error}]\n\n`;
+          } else if (response.error) {
             text += `[Error: ${response.error}]\n\n`;
           } else {
+            if (response.vote) {
+              text += `Vote: ${response.vote.choice} (${Math.round(response.vote.confidence * 100)}% confident)\n`;
+            }
             text += `${response.content}\n\n`;
+
+            if (response.peerLabels) {
+              text += `Reviewed peers as: ${this.describePeers(response, round, data)}\n\n`;
+            }
+
+            if (response.citations && response.citations.length > 0) {
+              text += `Sources:\n`;
+              response.citations.forEach((citation, i) => {
+                text += `  ${i + 1}. ${citation.title} - ${citation.url}\n`;
+              });
+              text += `\n`;
+            }
           }
         });
 
@@ -61,6 +105,55 @@ export class TextExporter extends BaseExporter {
       });
     }
 
+    if (data.ranking && data.responses) {
+      const round = data.responses[data.responses.length - 1];
+      const name = (model: string) => this.seatName(model, round, data);
+      text += `\nPEER RANKING:\n${'-'.repeat(50)}\n`;
+      data.ranking.leaderboard.forEach((entry, i) => {
+        text += `${i + 1}. ${name(entry.model)} - ${entry.points} pts (${entry.firstPlaces} first places)\n`;
+      });
+      data.ranking.ballots.forEach((ballot) => {
+        text += `\nRanked by ${name(ballot.ranker)}:${ballot.error ? ` [Error: ${ballot.error}]` : ''}\n`;
+        ballot.order.forEach((model, i) => {
+          text += `  ${i + 1}. ${name(model)} - ${ballot.justifications[model]}\n`;
+        });
+      });
+      const winner = round.find((r) => r.model === data.ranking!.winner);
+      if (winner) {
+        text += `\nBEST ANSWER (${name(winner.model)}):\n${winner.content}\n`;
+      }
+    }
+
+    if (data.vote && data.responses) {
+      const round = data.responses[data.responses.length - 1];
+      const { vote } = data;
+      text += `\nVOTE:\n${'-'.repeat(50)}\n`;
+      vote.choices.forEach((choice) => {
+        text += `${choice}: ${vote.counts[choice].votes} votes (weight ${vote.counts[choice].weight.toFixed(2)})\n`;
+      });
+      if (vote.winner) {
+        text += `\nWinner: ${vote.winner} (${Math.round(vote.agreement * 100)}% agreement)\n`;
+        if (vote.weightedWinner !== vote.winner) {
+          text += `Confidence-weighted winner: ${vote.weightedWinner}\n`;
+        }
+      }
+      vote.dissent.forEach(({ model, choice, rationale }) => {
+        text += `\nDissent from ${this.seatName(model, round, data)} (${choice}):\n${rationale}\n`;
+      });
+    }
+
+    if (data.verdict) {
+      text += `\nVERDICT${data.options?.showModels ? ` (${data.verdict.model})` : ''}:\n${'-'.repeat(50)}\n`;
+      text += `${data.verdict.content || `[Error: ${data.verdict.error}]`}\n`;
+    }
+
+    if (data.citations && data.citations.length > 0) {
+      text += `\nSOURCES:\n${'-'.repeat(50)}\n`;
+      data.citations.forEach((citation, i) => {
+        text += `${i + 1}. ${citation.title} - ${citation.url}\n`;
+      });
+    }
+
     // Add session metadata
     if (data.metadata) {
       text += `\nSESSION METADATA:\n${'-'.repeat(50)}\n`;
@@ -0,0 +1,22 @@
+import { LanguageModel, ProviderMetadata } from 'ai';
+
+import { ModelUsage, OpenRouterModel, QueryOptions, UrlCitation } from '../../council-client.js';
+
+export interface ResolvedModel {
+  model: LanguageModel;
+  providerMetadata?: ProviderMetadata;
+  /** Sources captured from the raw response, available once the call has finished */
+  citations?: () => Promise<UrlCitation[]>;
+  /** Billable web search the provider adds to each call */
+  webUsage?: Pick<ModelUsage, 'webSearches' | 'webResults'>;
+}
+
+/**
+ * A backend that can serve council seats. Model IDs passed to a provider have
+ * already had any provider prefix (e.g. `local:`) stripped.
+ */
+export interface ModelProvider {
+  readonly name: string;
+  resolveModel(modelId: string, options?: QueryOptions): ResolvedModel;
+  listModels(): Promise<OpenRouterModel[]>;
+}
@@ -0,0 +1,52 @@
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+
+import { ProviderConfig } from '../../config-schema.js';
+import { OpenRouterModel } from '../../council-client.js';
+
+import { ModelProvider, ResolvedModel } from './ModelProvider.js';
+
+/**
+ * Provider for any server speaking the OpenAI chat completions API
+ * (Ollama, llama.cpp server, vLLM, LM Studio, ...).
+ */
+export class OpenAICompatibleProvider implements ModelProvider {
+  private client: ReturnType<typeof createOpenAICompatible>;
+  private apiKey?: string;
+
+  constructor(
+    readonly name: string,
+    private config: ProviderConfig
+  ) {
+    this.apiKey = config.apiKey || (config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined);
+    this.client = createOpenAICompatible({
+      name,
+      baseURL: config.baseURL,
+      apiKey: this.apiKey,
+      headers: config.headers,
+    });
+  }
+
+  resolveModel(modelId: string): ResolvedModel {
+    // Web search is an OpenRouter feature; local servers simply answer without it
+    return { model: this.client.chatModel(modelId) };
+  }
+
+  async listModels(): Promise<OpenRouterModel[]> {
+    const response = await fetch(`${this.config.baseURL.replace(/\/$/, '')}/models`, {
+      headers: {
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        ...this.config.headers,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch models from ${this.name}: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { data?: Array<{ id: string; name?: string }> };
+    return (data.data || []).map((model) => ({
+      id: `${this.name}:${model.id}`,
+      name: model.name || model.id,
+    }));
+  }
+}
@@ -0,0 +1,119 @@
+import { createOpenRouter } from '@openrouter/ai-sdk-provider';
+import { ProviderMetadata } from 'ai';
+
+import { dedupeCitations, extractCitationsFromBody } from '../../citations.js';
+import { OpenRouterModel, QueryOptions } from '../../council-client.js';
+
+import { ModelProvider, ResolvedModel } from './ModelProvider.js';
+
+// Ask OpenRouter for detailed usage so reasoning tokens can be priced
+const MODEL_SETTINGS = { usage: { include: true } };
+
+export interface OpenRouterProviderOptions {
+  apiKey: string;
+  referer?: string;
+  title?: string;
+}
+
+export class OpenRouterProvider implements ModelProvider {
+  readonly name = 'openrouter';
+  private openrouter: ReturnType<typeof createOpenRouter>;
+  private headers: Record<string, string>;
+
+  constructor(private options: OpenRouterProviderOptions) {
+    this.headers = {
+      'HTTP-Referer': options.referer || 'https://github.com/council-of-elders',
+      'X-Title': options.title || 'Council of Elders',
+    };
+    this.openrouter = createOpenRouter({
+      apiKey: options.apiKey,
+      headers: this.headers,
+    });
+  }
+
+  resolveModel(modelId: string, options: QueryOptions = {}): ResolvedModel {
+    const providerMetadata = this.getProviderMetadata(options);
+    if (!options.webSearch) {
+      return { model: this.openrouter(modelId, MODEL_SETTINGS), providerMetadata };
+    }
+
+    // Web search answers carry url_citation annotations that the AI SDK provider
+    // drops, so read them from a copy of the raw response body
+    const bodies: Promise<string>[] = [];
+    const openrouter = createOpenRouter({
+      apiKey: this.options.apiKey,
+      headers: this.headers,
+      fetch: async (input, init) => {
+        const response = await fetch(input, init);
+        bodies.push(
+          response
+            .clone()
+            .text()
+            .catch(() => '')
+        );
+        return response;
+      },
+    });
+
+    // Apply web search suffix if needed
+    const model = openrouter(
+      options.webSearch === true ? `${modelId}:online` : modelId,
+      MODEL_SETTINGS
+    );
+
+    return {
+      model,
+      providerMetadata,
+      citations: async () =>
+        dedupeCitations((await Promise.all(bodies)).flatMap(extractCitationsFromBody)),
+      webUsage: this.getWebUsage(options),
+    };
+  }
+
+  private getWebUsage(options: QueryOptions): ResolvedModel['webUsage'] {
+    const webSearch = options.webSearch;
+    if (typeof webSearch === 'object' && webSearch.search_context_size) {
+      return { webSearches: 1 };
+    }
+    // `:online` and the web plugin both default to five results
+    const maxResults =
+      typeof webSearch === 'object' ? (webSearch.maxResults ?? webSearch.max_results) : undefined;
+    return { webResults: maxResults ?? 5 };
+  }
+
+  private getProviderMetadata(options: QueryOptions): ProviderMetadata | undefined {
+    const webSearch = options.webSearch;
+    if (!webSearch || typeof webSearch !== 'object') {
+      return undefined;
+    }
+
+    // Native search on models that support it
+    if (webSearch.search_context_size) {
+      return {
+        openrouter: { web_search_options: { search_context_size: webSearch.search_context_size } },
+      };
+    }
+
+    return {
+      openrouter: {
+        plugins: [{ id: 'web', max_results: webSearch.maxResults ?? webSearch.max_results ?? 5 }],
+      },
+    };
+  }
+
+  async listModels(): Promise<OpenRouterModel[]> {
+    const response = await fetch('https://openrouter.ai/api/v1/models', {
+      headers: {
+        Authorization: `Bearer ${this.options.apiKey}`,
+        ...this.headers,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch models: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { data: OpenRouterModel[] };
+    return data.data || [];
+  }
+}
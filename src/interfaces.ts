@@ -1,10 +1,39 @@
-import { ModelResponse } from './council-client.js';
-import { CouncilConfig, ConsensusResponse } from './types.js';
+import {
+  CacheConfig,
+  HistoryConfig,
+  McpConfig,
+  ProviderConfig,
+  SchedulerConfig,
+} from './config-schema.js';
+import { ModelResponse, ModelUsage, OpenRouterModel } from './council-client.js';
+import { CouncilPrompt } from './prompt-templates.js';
+import {
+  ChatTurn,
+  ConsensusContext,
+  CouncilConfig,
+  ConsensusResponse,
+  CouncilQueryHooks,
+  SessionRecord,
+} from './types.js';
 
 export interface ICouncilService {
-  query(prompt: string, config: CouncilConfig): Promise<ModelResponse[]>;
-  queryWithConsensus(prompt: string, config: CouncilConfig): Promise<ConsensusResponse>;
+  query(prompt: string, config: CouncilConfig, hooks?: CouncilQueryHooks): Promise<ModelResponse[]>;
+  /**
+   * Put `prompt` to the council. `context` carries what the council said
+   * before: the seats' earlier conversation for a follow-up question, or the
+   * rounds already held when adding rounds to a discussion.
+   */
+  queryWithConsensus(
+    prompt: string,
+    config: CouncilConfig,
+    hooks?: CouncilQueryHooks,
+    context?: ConsensusContext
+  ): Promise<ConsensusResponse>;
   getAvailableModels(): Promise<string[]>;
+  /**
+   * Every provider's models with their pricing and context length
+   */
+  getModelCatalog(): Promise<OpenRouterModel[]>;
 }
 
 export interface IConfigService {
@@ -12,12 +41,52 @@ export interface IConfigService {
   getApiKey(): string;
   getDefaultCouncil(): string;
   getAllCouncils(): string[];
+  getProviders(): Record<string, ProviderConfig>;
+  getScheduler(): SchedulerConfig | undefined;
+  getHistory(): HistoryConfig | undefined;
+  getCache(): CacheConfig | undefined;
+  getMcp(): McpConfig | undefined;
+  /**
+   * The built-in MCP prompts and those the config file defines
+   */
+  getPrompts(): CouncilPrompt[];
+}
+
+export interface ISessionService {
+  /**
+   * Start a session; it is stored once saved
+   */
+  create(config: CouncilConfig, council?: string): SessionRecord;
+  /**
+   * Store the session, unless history is disabled, and delete sessions past
+   * retention. Resolves whether the session was stored.
+   */
+  save(session: SessionRecord): Promise<boolean>;
+  /**
+   * Find a session by its ID or a unique prefix of it
+   */
+  load(id: string): Promise<SessionRecord>;
+  /**
+   * Sessions newest first, optionally only those whose council or questions mention `search`
+   */
+  list(search?: string): Promise<SessionRecord[]>;
 }
 
 export interface IExporter {
   export(data: ModelResponse[] | ConsensusResponse, outputPath?: string): Promise<void>;
+  exportTranscript(
+    turns: ChatTurn[],
+    options?: { showModels?: boolean; synthesized?: boolean },
+    outputPath?: string
+  ): Promise<void>;
 }
 
 export interface IPricingService {
-  calculate(modelId: string, usage: { totalTokens: number }): number;
+  loadCatalog(fetchCatalog: () => Promise<OpenRouterModel[]>): Promise<void>;
+  calculate(modelId: string, usage: ModelUsage): number;
+  /**
+   * Mark providers as self-hosted: their `<provider>:<model>` IDs are free
+   * unless `pricing.json` prices the model
+   */
+  setLocalProviders(names: string[]): void;
 }
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+
+import { CoeConfigSchema } from './config-schema.js';
+import { IConfigService } from './interfaces.js';
+import { McpPrompts } from './mcp-prompts.js';
+import { resolvePrompts } from './prompt-templates.js';
+
+function prompts(configured?: Parameters<typeof resolvePrompts>[0]): McpPrompts {
+  const configService = {
+    getPrompts: () => resolvePrompts(configured),
+  } as unknown as IConfigService;
+  return new McpPrompts(configService);
+}
+
+describe('MCP prompts', () => {
+  it('should offer the built-in prompts and those in the config', () => {
+    const list = prompts({
+      'code-review': { council: 'engineering' },
+      'pitch-review': { template: 'Would you fund {{pitch}}?', rounds: 3 },
+    }).list();
+
+    expect(list.map((p) => p.name)).toEqual([
+      'architecture-review',
+      'code-review',
+      'risk-assessment',
+      'fact-check',
+      'pitch-review',
+    ]);
+    expect(list[1].description).toContain('(engineering council, 1 round)');
+    expect(list[4]).toEqual({
+      name: 'pitch-review',
+      description: '(default council, 3 rounds)',
+      arguments: [{ name: 'pitch', required: true }],
+    });
+  });
+
+  it('should fill the template and suggest the council and rounds', () => {
+    const { messages } = prompts({ 'fact-check': { council: 'research' } }).get('fact-check', {
+      claim: 'The Great Wall is visible from space',
+    });
+    const { text } = messages[0].content;
+
+    expect(text).toContain('`consult_research_council` tool');
+    expect(text).toContain('`rounds` set to 2');
+    expect(text).toContain('Fact-check this claim: The Great Wall is visible from space');
+    // The optional source was left out, and its line with it
+    expect(text).not.toContain('Source of the claim');
+
+    expect(() => prompts().get('fact-check', {})).toThrow('Missing arguments');
+    expect(() => prompts().get('horoscope')).toThrow('Unknown prompt');
+  });
+
+  it('should reject prompts bound to an unknown council or without a template', () => {
+    const config = { models: ['one'], councils: { research: { models: ['one'] } } };
+
+    expect(
+      CoeConfigSchema.safeParse({ ...config, prompts: { x: { template: 'x' } } }).success
+    ).toBe(true);
+    expect(
+      CoeConfigSchema.safeParse({
+        ...config,
+        prompts: { 'fact-check': { council: 'legal' } },
+      }).success
+    ).toBe(false);
+    expect(CoeConfigSchema.safeParse({ ...config, prompts: { x: { rounds: 2 } } }).success).toBe(
+      false
+    );
+  });
+});
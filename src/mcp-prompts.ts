@@ -0,0 +1,83 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+import { IConfigService } from './interfaces.js';
+import { CouncilPrompt, fillPrompt } from './prompt-templates.js';
+
+interface Prompt {
+  name: string;
+  description?: string;
+  arguments: { name: string; description?: string; required: boolean }[];
+}
+
+interface PromptMessage {
+  role: 'user';
+  content: { type: 'text'; text: string };
+}
+
+/**
+ * Ready-made consultations the MCP server offers, each asking the client's
+ * model to put the filled-in request to a suggested council
+ */
+export class McpPrompts {
+  constructor(private configService: IConfigService) {}
+
+  list(): Prompt[] {
+    return this.configService.getPrompts().map((prompt) => ({
+      name: prompt.name,
+      description: [prompt.description, `(${this.suggestion(prompt)})`].filter(Boolean).join(' '),
+      arguments: prompt.arguments.map(({ name, description, required }) => ({
+        name,
+        description,
+        required,
+      })),
+    }));
+  }
+
+  get(
+    name: string,
+    args: Record<string, string> = {}
+  ): { description?: string; messages: PromptMessage[] } {
+    const prompt = this.configService.getPrompts().find((p) => p.name === name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+    const missing = prompt.arguments.filter((arg) => arg.required && !args[arg.name]?.trim());
+    if (missing.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing arguments for prompt ${name}: ${missing.map((arg) => arg.name).join(', ')}`
+      );
+    }
+
+    const tool = this.tool(prompt);
+    const options = prompt.rounds ? ` and \`rounds\` set to ${prompt.rounds}` : '';
+    return {
+      description: prompt.description,
+      messages: [
+        {
+          role: 'user',
+          content: {
+            type: 'text',
+            text: [
+              `Put the request below to the Council of Elders with the \`${tool}\` tool, passing it as \`query\`${options}. Then report the council's answer, including where the elders disagreed.`,
+              '---',
+              fillPrompt(prompt.template, args),
+            ].join('\n\n'),
+          },
+        },
+      ],
+    };
+  }
+
+  private tool(prompt: CouncilPrompt): string {
+    return prompt.council ? `consult_${prompt.council}_council` : 'consult_elders';
+  }
+
+  private suggestion(prompt: CouncilPrompt): string {
+    const council = prompt.council ? `${prompt.council} council` : 'default council';
+    const rounds = prompt.rounds
+      ? `, ${prompt.rounds} ${prompt.rounds === 1 ? 'round' : 'rounds'}`
+      : '';
+    return `${council}${rounds}`;
+  }
+}
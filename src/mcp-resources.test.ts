@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+
+import { ICouncilService, IConfigService, ISessionService } from './interfaces.js';
+import { McpResources } from './mcp-resources.js';
+import { SessionRecord } from './types.js';
+
+const session: SessionRecord = {
+  id: 'abcd1234',
+  createdAt: '2025-06-01T10:00:00.000Z',
+  updatedAt: '2025-06-01T10:00:00.000Z',
+  council: 'research',
+  config: { models: ['one'] },
+  turns: [
+    {
+      prompt: 'Is the sky blue?',
+      council: 'research',
+      // A single round, stored without a synthesis
+      result: { rounds: [[{ model: 'one', content: 'Mostly, by day.' }]] },
+    },
+  ],
+};
+
+function resources(): McpResources {
+  const configService = {
+    getAllCouncils: () => ['research'],
+    getDefaultCouncil: () => 'research',
+    loadConfig: () =>
+      Promise.resolve({
+        models: ['one', { model: 'one', persona: 'skeptic' }],
+        personas: { skeptic: 'Doubt everything.' },
+        system: 'Be rigorous.',
+        rounds: 2,
+      }),
+  } as unknown as IConfigService;
+  const councilService = {
+    getModelCatalog: () =>
+      Promise.resolve([
+        {
+          id: 'one',
+          name: 'One',
+          context_length: 8192,
+          pricing: { prompt: '0.000001', completion: '0.000002' },
+        },
+      ]),
+  } as unknown as ICouncilService;
+  const sessionService = {
+    list: () => Promise.resolve([session]),
+    load: () => Promise.resolve(session),
+  } as unknown as ISessionService;
+
+  return new McpResources(configService, councilService, sessionService);
+}
+
+describe('MCP resources', () => {
+  it('should list councils, models and sessions', async () => {
+    expect((await resources().list()).map((r) => r.uri)).toEqual([
+      'coe://councils/research',
+      'coe://models',
+      'coe://sessions/abcd1234',
+    ]);
+  });
+
+  it('should describe a council and the models', async () => {
+    const [council] = await resources().read('coe://councils/research');
+    expect(JSON.parse(council.text)).toMatchObject({
+      tool: 'consult_research_council',
+      default: true,
+      members: [
+        { seat: 'one#1', model: 'one' },
+        { seat: 'one#skeptic', persona: 'skeptic', systemPrompt: 'Doubt everything.' },
+      ],
+      system: 'Be rigorous.',
+      rounds: 2,
+      synthesizer: 'openai/gpt-4o-mini',
+    });
+
+    const [models] = await resources().read('coe://models');
+    expect(JSON.parse(models.text)).toEqual([
+      {
+        id: 'one',
+        name: 'One',
+        contextLength: 8192,
+        pricing: { prompt: 0.000001, completion: 0.000002 },
+      },
+    ]);
+  });
+
+  it('should read a session as a transcript and as its record', async () => {
+    const [transcript, record] = await resources().read('coe://sessions/abcd');
+    expect(transcript.mimeType).toBe('text/markdown');
+    expect(transcript.text).toContain('Is the sky blue?');
+    expect(transcript.text).toContain('Mostly, by day.');
+    expect(JSON.parse(record.text)).toEqual(session);
+
+    await expect(resources().read('coe://elsewhere')).rejects.toThrow('Unknown resource');
+  });
+});
@@ -0,0 +1,162 @@
+import 'reflect-metadata';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+import {
+  defaultSynthesizerModel,
+  getModelFallbacks,
+  getModelId,
+  getSeatIds,
+  getSeatSystemPrompt,
+} from './config.js';
+import { MarkdownExporter } from './infrastructure/exporters/MarkdownExporter.js';
+import { ICouncilService, IConfigService, ISessionService } from './interfaces.js';
+
+interface Resource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * What the MCP server lets clients browse: its councils, the models they can
+ * seat, and past sessions
+ */
+export class McpResources {
+  constructor(
+    private configService: IConfigService,
+    private councilService: ICouncilService,
+    private sessionService: ISessionService
+  ) {}
+
+  async list(): Promise<Resource[]> {
+    const councils = this.configService.getAllCouncils().map((name) => ({
+      uri: `coe://councils/${name}`,
+      name: `${name} council`,
+      description: `Members, system prompt, rounds and synthesizer of the ${name} council`,
+      mimeType: 'application/json',
+    }));
+    const sessions = (await this.sessionService.list()).map((session) => {
+      const prompt = (session.turns[0]?.prompt || '').replace(/\s+/g, ' ');
+      return {
+        uri: `coe://sessions/${session.id}`,
+        name: prompt.length > 70 ? `${prompt.slice(0, 70)}...` : prompt || session.id,
+        description: `${session.council || 'Default'} council, ${session.turns.length} ${session.turns.length === 1 ? 'turn' : 'turns'}, ${session.createdAt}`,
+        mimeType: 'text/markdown',
+      };
+    });
+
+    return [
+      ...councils,
+      {
+        uri: 'coe://models',
+        name: 'Available models',
+        description: 'Models the councils can seat, with their pricing and context length',
+        mimeType: 'application/json',
+      },
+      ...sessions,
+    ];
+  }
+
+  templates() {
+    return [
+      {
+        uriTemplate: 'coe://councils/{name}',
+        name: 'Council',
+        description: 'Members, system prompt, rounds and synthesizer of a configured council',
+        mimeType: 'application/json',
+      },
+      {
+        uriTemplate: 'coe://sessions/{id}',
+        name: 'Session',
+        description: 'Transcript of an earlier consultation, by session ID or a unique prefix',
+        mimeType: 'text/markdown',
+      },
+    ];
+  }
+
+  async read(uri: string): Promise<ResourceContents[]> {
+    const [, kind, id] = uri.match(/^coe:\/\/(councils|models|sessions)(?:\/(.+))?$/) || [];
+
+    if (kind === 'councils' && id) {
+      return [this.json(uri, await this.describeCouncil(decodeURIComponent(id)))];
+    }
+    if (kind === 'models' && !id) {
+      return [this.json(uri, await this.describeModels())];
+    }
+    if (kind === 'sessions' && id) {
+      // The transcript for reading, and the stored record for picking apart
+      const session = await this.sessionService.load(decodeURIComponent(id));
+      return [
+        {
+          uri,
+          mimeType: 'text/markdown',
+          text: new MarkdownExporter().transcript(session.turns, {
+            showModels: true,
+            synthesized: true,
+          }),
+        },
+        this.json(uri, session),
+      ];
+    }
+
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+  }
+
+  private async describeCouncil(name: string) {
+    if (!this.configService.getAllCouncils().includes(name)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown council: ${name}`);
+    }
+    const council = await this.configService.loadConfig(name);
+    const seatIds = getSeatIds(council.models);
+
+    return {
+      name,
+      tool: `consult_${name}_council`,
+      default: name === this.configService.getDefaultCouncil(),
+      members: council.models.map((model, i) => ({
+        seat: seatIds[i],
+        model: getModelId(model),
+        ...(typeof model === 'object' && model.persona ? { persona: model.persona } : {}),
+        systemPrompt: getSeatSystemPrompt(model, council.personas),
+        ...(getModelFallbacks(model).length > 0 ? { fallbacks: getModelFallbacks(model) } : {}),
+      })),
+      system: council.system,
+      mode: council.mode || 'consensus',
+      rounds: council.rounds || 1,
+      maxRounds: council.maxRounds,
+      choices: council.choices,
+      synthesizer: getModelId(council.synthesizer || defaultSynthesizerModel),
+      defaults: council.defaults,
+      maxCostPerQuery: council.maxCostPerQuery,
+      maxCostPerDay: council.maxCostPerDay,
+    };
+  }
+
+  /**
+   * Prices are OpenRouter's, in USD per token
+   */
+  private async describeModels() {
+    const models = await this.councilService.getModelCatalog();
+    return models.map((model) => ({
+      id: model.id,
+      name: model.name,
+      contextLength: model.context_length,
+      maxCompletionTokens: model.top_provider?.max_completion_tokens,
+      pricing: model.pricing && {
+        prompt: Number(model.pricing.prompt),
+        completion: Number(model.pricing.completion),
+      },
+    }));
+  }
+
+  private json(uri: string, value: unknown): ResourceContents {
+    return { uri, mimeType: 'application/json', text: JSON.stringify(value, null, 2) };
+  }
+}
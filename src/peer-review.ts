@@ -0,0 +1,83 @@
+import { ModelResponse } from './council-client.js';
+
+/**
+ * How elders see each other's answers in consensus rounds
+ */
+export interface PeerReviewOptions {
+  /** Label peers with neutral pseudonyms instead of their model IDs */
+  anonymize?: boolean;
+  /** Shuffle the peers' order for every recipient in every round */
+  shuffle?: boolean;
+  /** Present the elder's own previous answer as just another peer; implies `anonymize` */
+  hideOwnAnswer?: boolean;
+}
+
+export interface PeerEntry {
+  label: string;
+  response: ModelResponse;
+}
+
+/**
+ * The answers one elder reviews in a round, and the pseudonym of each seat
+ */
+export interface PeerReview {
+  entries: PeerEntry[];
+  /** Pseudonym → seat model, when peers are anonymized */
+  labels?: Record<string, string>;
+}
+
+export function shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Select and label the previous-round answers shown to the elder in seat
+ * `recipient`. Its own answer is included only when `hideOwnAnswer` is set.
+ */
+export function preparePeerReview(
+  recipient: number,
+  previousRound: ModelResponse[],
+  options: PeerReviewOptions = {},
+  random: () => number = Math.random
+): PeerReview {
+  let reviewed = previousRound.filter(
+    (response, i) =>
+      (i !== recipient || options.hideOwnAnswer) && !response.error && response.content
+  );
+  if (options.shuffle) {
+    reviewed = shuffle(reviewed, random);
+  }
+
+  if (!options.anonymize && !options.hideOwnAnswer) {
+    return { entries: reviewed.map((response) => ({ label: response.model, response })) };
+  }
+
+  const entries = reviewed.map((response, i) => ({ label: pseudonym(i), response }));
+  return {
+    entries,
+    labels: Object.fromEntries(entries.map(({ label, response }) => [label, response.model])),
+  };
+}
+
+function pseudonym(index: number): string {
+  const letter = String.fromCharCode(65 + (index % 26));
+  return `Respondent ${index < 26 ? letter : `${letter}${Math.floor(index / 26)}`}`;
+}
+
+/**
+ * Describe how an elder saw its peers, e.g. `Respondent A = Elder 2`, naming
+ * each seat with `nameOf`
+ */
+export function describePeerLabels(
+  labels: Record<string, string>,
+  nameOf: (model: string) => string
+): string {
+  return Object.entries(labels)
+    .map(([label, model]) => `${label} = ${nameOf(model)}`)
+    .join(', ');
+}
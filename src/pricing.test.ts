@@ -0,0 +1,108 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { OpenRouterModel } from './council-client.js';
+import { PricingService } from './services/PricingService.js';
+
+const catalog: OpenRouterModel[] = [
+  {
+    id: 'openai/gpt-4o',
+    name: 'GPT-4o',
+    pricing: { prompt: '0.0000025', completion: '0.00001' },
+  },
+  {
+    id: 'openai/o3',
+    name: 'o3',
+    pricing: { prompt: '0.000002', completion: '0.000008', internal_reasoning: '0.00001' },
+  },
+];
+
+describe('PricingService', () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = mkdtempSync(path.join(tmpdir(), 'coe-pricing-'));
+    vi.stubEnv('COE_CACHE_DIR', cacheDir);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should price prompt and completion tokens separately from the catalog', () => {
+    const pricing = new PricingService();
+    pricing.setCatalog(catalog);
+
+    const cost = pricing.calculate('openai/gpt-4o', { promptTokens: 1000, completionTokens: 100 });
+    expect(cost).toBeCloseTo(0.0025 + 0.001, 10);
+  });
+
+  it('should add reasoning and web search surcharges', () => {
+    const pricing = new PricingService();
+    pricing.setCatalog(catalog);
+
+    const cost = pricing.calculate('openai/o3', {
+      promptTokens: 0,
+      completionTokens: 1000,
+      reasoningTokens: 600,
+      webResults: 5,
+    });
+    expect(cost).toBeCloseTo(400 * 0.000008 + 600 * 0.00001 + 5 * 0.004, 10);
+  });
+
+  it('should price self-hosted models at nothing unless pricing.json names them', () => {
+    const usage = { promptTokens: 1000, completionTokens: 1000 };
+    const pricing = new PricingService();
+    pricing.setLocalProviders(['local']);
+
+    expect(pricing.calculate('local:llama-3', usage)).toBe(0);
+    expect(pricing.calculate('meta-llama/llama-3', usage)).toBeGreaterThan(0);
+
+    const cwd = vi.spyOn(process, 'cwd').mockReturnValue(cacheDir);
+    writeFileSync(
+      path.join(cacheDir, 'pricing.json'),
+      JSON.stringify({ defaultRate: 0.002, models: { 'local:llama-3': 0.001 }, patterns: {} })
+    );
+    const configured = new PricingService();
+    configured.setLocalProviders(['local']);
+
+    expect(configured.calculate('local:llama-3', usage)).toBeCloseTo(0.002, 10);
+    expect(configured.calculate('local:qwen', usage)).toBe(0);
+    cwd.mockRestore();
+  });
+
+  it('should cache the catalog on disk and reuse it while fresh', async () => {
+    const fetchCatalog = vi.fn().mockResolvedValue(catalog);
+
+    await new PricingService().loadCatalog(fetchCatalog);
+    const cached = JSON.parse(readFileSync(path.join(cacheDir, 'model-catalog.json'), 'utf-8')) as {
+      models: unknown[];
+    };
+    expect(cached.models).toHaveLength(2);
+
+    const pricing = new PricingService();
+    await pricing.loadCatalog(fetchCatalog);
+    expect(fetchCatalog).toHaveBeenCalledTimes(1);
+    expect(pricing.calculate('openai/gpt-4o', { promptTokens: 1000, completionTokens: 0 })).toBe(
+      0.0025
+    );
+  });
+
+  it('should fall back to a stale cache when the catalog cannot be fetched', async () => {
+    writeFileSync(
+      path.join(cacheDir, 'model-catalog.json'),
+      JSON.stringify({ fetchedAt: 0, models: catalog })
+    );
+
+    const pricing = new PricingService();
+    await pricing.loadCatalog(() => Promise.reject(new Error('offline')));
+
+    expect(pricing.calculate('openai/gpt-4o', { promptTokens: 1000, completionTokens: 0 })).toBe(
+      0.0025
+    );
+  });
+});
@@ -0,0 +1,153 @@
+import { PromptTemplate } from './config-schema.js';
+
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required: boolean;
+}
+
+/**
+ * A prompt ready to offer: built in, defined in the config file, or a
+ * built-in one the config file overrides
+ */
+export interface CouncilPrompt {
+  name: string;
+  description?: string;
+  template: string;
+  arguments: PromptArgument[];
+  council?: string;
+  rounds?: number;
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Prompts offered for common consultations. The config file's `prompts`
+ * may add to them or override them, e.g. to bind one to a council.
+ */
+export const BUILT_IN_PROMPTS: Record<string, PromptTemplate> = {
+  'architecture-review': {
+    description: 'Review an architecture decision: trade-offs, risks and alternatives',
+    template: [
+      'Review this architecture decision.',
+      '',
+      'Decision: {{decision}}',
+      'Context: {{context}}',
+      'Alternatives considered: {{alternatives}}',
+      '',
+      'Weigh its trade-offs, the risks it takes on and what it will make hard to change later, and whether an alternative would serve better. End with a recommendation: keep, revise or reverse the decision.',
+    ].join('\n'),
+    arguments: [
+      { name: 'decision', description: 'The decision and what it is for', required: true },
+      { name: 'context', description: 'Constraints, scale, team and existing systems' },
+      { name: 'alternatives', description: 'Options already considered' },
+    ],
+    rounds: 2,
+  },
+  'code-review': {
+    description: 'Review a snippet of code for bugs, security, performance and readability',
+    template: [
+      'Review this code for bugs, security problems, performance and readability, most serious first, and suggest concrete fixes.',
+      'Language: {{language}}',
+      'Focus on: {{focus}}',
+      '',
+      '```',
+      '{{code}}',
+      '```',
+    ].join('\n'),
+    arguments: [
+      { name: 'code', description: 'The code to review', required: true },
+      { name: 'language', description: 'Language or framework of the code' },
+      { name: 'focus', description: 'What to look at in particular' },
+    ],
+    rounds: 1,
+  },
+  'risk-assessment': {
+    description: 'Assess the risks of a plan, with their likelihood, impact and mitigations',
+    template: [
+      'Assess the risks of this plan.',
+      '',
+      'Plan: {{plan}}',
+      'Context: {{context}}',
+      '',
+      'List the risks from most to least serious, each with its likelihood, its impact and how to mitigate it. Call out anything that should stop the plan going ahead.',
+    ].join('\n'),
+    arguments: [
+      { name: 'plan', description: 'The plan, change or launch to assess', required: true },
+      { name: 'context', description: 'Deadlines, dependencies and what is at stake' },
+    ],
+    rounds: 2,
+  },
+  'fact-check': {
+    description: 'Check whether a claim is true, with the evidence for and against it',
+    template: [
+      'Fact-check this claim: {{claim}}',
+      'Source of the claim: {{source}}',
+      '',
+      'Say whether it is true, false, misleading or unverifiable, give the evidence for and against it with sources, and how confident you are.',
+    ].join('\n'),
+    arguments: [
+      { name: 'claim', description: 'The claim to check', required: true },
+      { name: 'source', description: 'Where the claim was made' },
+    ],
+    rounds: 2,
+  },
+};
+
+/**
+ * The built-in prompts with the config file's over them. An override keeps
+ * whatever it leaves out of the built-in prompt, except that a new template
+ * brings its own arguments.
+ */
+export function resolvePrompts(configured: Record<string, PromptTemplate> = {}): CouncilPrompt[] {
+  const names = [...new Set([...Object.keys(BUILT_IN_PROMPTS), ...Object.keys(configured)])];
+
+  return names.map((name) => {
+    const override = configured[name];
+    const prompt = { ...BUILT_IN_PROMPTS[name], ...override };
+    const template = prompt.template || '';
+    return {
+      name,
+      description: prompt.description,
+      template,
+      arguments: promptArguments(
+        template,
+        override?.template ? override.arguments : prompt.arguments
+      ),
+      council: prompt.council,
+      rounds: prompt.rounds,
+    };
+  });
+}
+
+/**
+ * The declared arguments, then any other placeholder in the template as a
+ * required argument
+ */
+function promptArguments(
+  template: string,
+  declared: PromptTemplate['arguments'] = []
+): PromptArgument[] {
+  const args = declared.map((arg) => ({ ...arg, required: arg.required ?? false }));
+  for (const [, name] of template.matchAll(PLACEHOLDER)) {
+    if (!args.some((arg) => arg.name === name)) {
+      args.push({ name, required: true });
+    }
+  }
+  return args;
+}
+
+/**
+ * Fill the template's placeholders. A line whose placeholders are all left
+ * empty is dropped, so optional arguments can sit on lines of their own.
+ */
+export function fillPrompt(template: string, values: Record<string, string | undefined>): string {
+  return template
+    .split('\n')
+    .filter((line) => {
+      const names = [...line.matchAll(PLACEHOLDER)].map(([, name]) => name);
+      return names.length === 0 || names.some((name) => values[name]?.trim());
+    })
+    .map((line) => line.replace(PLACEHOLDER, (_, name: string) => values[name] ?? ''))
+    .join('\n');
+}
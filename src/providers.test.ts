@@ -0,0 +1,544 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { z } from 'zod';
+
+import { CouncilClient } from './council-client.js';
+import { assignDebateSeats } from './debate.js';
+import { ResponseCache } from './response-cache.js';
+import { CircuitBreaker, DEFAULT_RETRY_POLICY } from './retry.js';
+
+interface ChatCompletionRequest {
+  model: string;
+  messages: Array<{ role: string; content: string }>;
+  stream?: boolean;
+  tools?: Array<{
+    function: { name: string; parameters: { properties: { choice?: { enum: string[] } } } };
+  }>;
+}
+
+// Request bodies of calls the client hung up on before a response was sent
+const abortedRequests: string[] = [];
+// Chat requests received per model
+const requestCounts = new Map<string, number>();
+
+// Minimal OpenAI-compatible server standing in for Ollama / llama.cpp / vLLM
+function handleRequest(req: IncomingMessage, res: ServerResponse) {
+  if (req.method === 'GET' && req.url === '/v1/models') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ object: 'list', data: [{ id: 'stub-model', object: 'model' }] }));
+    return;
+  }
+
+  let body = '';
+  res.on('close', () => {
+    if (!res.writableFinished) abortedRequests.push(body);
+  });
+  req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+  req.on('end', () => {
+    const request = JSON.parse(body) as ChatCompletionRequest;
+    const count = (requestCounts.get(request.model) || 0) + 1;
+    requestCounts.set(request.model, count);
+
+    if (request.model.startsWith('unauthorized')) {
+      res.writeHead(401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'Invalid API key', code: 401 } }));
+      return;
+    }
+    // Flaky models are rate limited on their first request
+    if (request.model.startsWith('flaky') && count === 1) {
+      res.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After-Ms': '10' });
+      res.end(JSON.stringify({ error: { message: 'Rate limit exceeded', code: 429 } }));
+      return;
+    }
+
+    // Slow models never answer on their own; only cancellation ends the request
+    if (request.model.startsWith('slow')) {
+      return;
+    }
+    const delayMs = request.model.startsWith('delayed') ? 100 : 0;
+
+    // System-echo models repeat their system prompt instead of the last message
+    const lastMessage = request.messages[request.messages.length - 1];
+    const heard = request.model.startsWith('system-echo') ? request.messages[0] : lastMessage;
+    const content = `${request.model} heard: ${heard.content}`;
+    // Structured requests get a fixed synthesis, or rank the answers they were shown in
+    // reverse order of their labels, or vote: contrarians for the last choice until
+    // they see a tally, everyone else for the first
+    const tool = request.tools?.[0].function;
+    const choices = tool?.parameters.properties.choice?.enum;
+    const contrarian =
+      request.model.startsWith('contrarian') && !lastMessage.content.includes('The council voted');
+    const toolCalls = tool && [
+      {
+        id: 'call-stub',
+        type: 'function',
+        function: {
+          name: tool.name,
+          arguments: JSON.stringify(
+            choices
+              ? {
+                  choice: contrarian ? choices[choices.length - 1] : choices[0],
+                  rationale: content,
+                  confidence: contrarian ? 0.9 : 0.6,
+                }
+              : 'summary' in tool.parameters.properties
+                ? {
+                    summary: `${request.model} summary`,
+                    keyPoints: ['Agreed point'],
+                    perspectives: [{ model: 'Elder 1', contribution: 'Insight' }],
+                    disagreements: ['Open question'],
+                    confidence: 0.8,
+                  }
+                : {
+                    ranking: [...lastMessage.content.matchAll(/\*\*(Respondent \w+)\*\*/g)]
+                      .map(([, respondent]) => ({ respondent, justification: 'Stub ranking' }))
+                      .sort((a, b) => b.respondent.localeCompare(a.respondent)),
+                  }
+          ),
+        },
+      },
+    ];
+
+    if (request.stream) {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      const chunk = (delta: Record<string, unknown>, extra: Record<string, unknown> = {}) =>
+        `data: ${JSON.stringify({
+          id: 'chatcmpl-stub',
+          object: 'chat.completion.chunk',
+          created: Math.floor(Date.now() / 1000),
+          model: request.model,
+          choices: [{ index: 0, delta, finish_reason: null }],
+          ...extra,
+        })}\n\n`;
+      content.split(' ').forEach((word, i) => {
+        res.write(chunk({ ...(i === 0 && { role: 'assistant' }), content: i ? ` ${word}` : word }));
+      });
+      res.write(
+        chunk({}, { usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } })
+      );
+      res.end('data: [DONE]\n\n');
+      return;
+    }
+
+    setTimeout(() => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          id: 'chatcmpl-stub',
+          object: 'chat.completion',
+          created: Math.floor(Date.now() / 1000),
+          model: request.model,
+          choices: [
+            {
+              index: 0,
+              message: toolCalls
+                ? { role: 'assistant', content: null, tool_calls: toolCalls }
+                : { role: 'assistant', content },
+              finish_reason: toolCalls ? 'tool_calls' : 'stop',
+            },
+          ],
+          usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+        })
+      );
+    }, delayMs);
+  });
+}
+
+describe('Model providers', () => {
+  let server: Server;
+  let client: CouncilClient;
+
+  beforeAll(async () => {
+    // Keep the pricing catalog cache out of the user's cache directory
+    vi.stubEnv('COE_CACHE_DIR', mkdtempSync(path.join(tmpdir(), 'coe-providers-')));
+    server = createServer(handleRequest);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    client = new CouncilClient({
+      apiKey: 'unused',
+      providers: {
+        local: { type: 'openai-compatible', baseURL: `http://127.0.0.1:${port}/v1` },
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.close();
+    rmSync(process.env.COE_CACHE_DIR!, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+  });
+
+  it('should route prefixed model IDs to the OpenAI-compatible provider', async () => {
+    const response = await client.queryModel('local:stub-model', [
+      { role: 'user', content: 'hello' },
+    ]);
+
+    expect(response.error).toBeUndefined();
+    expect(response.model).toBe('local:stub-model');
+    expect(response.content).toBe('stub-model heard: hello');
+    expect(response.meta?.totalTokens).toBe(15);
+  });
+
+  it('should stream chunks and return the same response as a non-streamed query', async () => {
+    const chunks: string[] = [];
+    const response = await client.queryModel(
+      'local:stub-model',
+      [{ role: 'user', content: 'hello' }],
+      {
+        onChunk: (text, model) => {
+          expect(model).toBe('local:stub-model');
+          chunks.push(text);
+        },
+      }
+    );
+
+    expect(response.error).toBeUndefined();
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe('stub-model heard: hello');
+    expect(response.content).toBe('stub-model heard: hello');
+    expect(response.meta?.totalTokens).toBe(15);
+  });
+
+  it('should list models from the OpenAI-compatible provider with its prefix', async () => {
+    const models = await client.getAvailableModels();
+
+    expect(models.map((m) => m.id)).toContain('local:stub-model');
+  });
+
+  it('should cancel in-flight requests once first-n models have answered', async () => {
+    const responses = await client.queryMultipleModels(
+      ['local:slow-model', 'local:delayed-model'],
+      [{ role: 'user', content: 'hello' }],
+      { firstN: 1 }
+    );
+
+    expect(responses.map((r) => r.model)).toEqual(['local:slow-model', 'local:delayed-model']);
+    expect(responses[0].status).toBe('cancelled');
+    expect(responses[0].error).toBeUndefined();
+    expect(responses[1].status).toBe('success');
+
+    await vi.waitFor(() =>
+      expect(abortedRequests.some((body) => body.includes('slow-model'))).toBe(true)
+    );
+  });
+
+  it('should abort models that miss their deadline and mark them timed out', async () => {
+    const responses = await client.queryMultipleModels(
+      ['local:slow-model', 'local:stub-model'],
+      [{ role: 'user', content: 'hello' }],
+      { timeoutMs: 200 }
+    );
+
+    expect(responses[0].status).toBe('timedOut');
+    expect(responses[0].error).toBe('Timed out after 0.2s');
+    expect(responses[1].status).toBe('success');
+  });
+
+  it('should end the round at the round deadline', async () => {
+    const startTime = Date.now();
+    const responses = await client.queryMultipleModels(
+      ['local:stub-model', 'local:slow-model'],
+      [{ role: 'user', content: 'hello' }],
+      { roundTimeoutMs: 200 }
+    );
+
+    expect(Date.now() - startTime).toBeLessThan(2000);
+    expect(responses[0].status).toBe('success');
+    expect(responses[1].status).toBe('timedOut');
+  });
+
+  it('should stop a discussion when its query is cancelled', async () => {
+    const controller = new AbortController();
+    const progress: string[] = [];
+    const rounds = client.runConsensusRounds(
+      ['local:slow-model', 'local:stub-model'],
+      'hello',
+      '',
+      3,
+      {
+        signal: controller.signal,
+        continueRound: () => !controller.signal.aborted,
+      },
+      (round, model, status) => progress.push(`${round} ${model} ${status}`)
+    );
+    await vi.waitFor(() => expect(progress).toContain('1 local:stub-model complete'));
+    controller.abort();
+
+    const responses = await rounds;
+    expect(responses).toHaveLength(1);
+    expect(responses[0][0].status).toBe('cancelled');
+    expect(progress).toContain('1 local:slow-model cancelled');
+
+    // A query cancelled before it starts sends nothing
+    const before = requestCounts.get('stub-model');
+    const cancelled = await client.queryMultipleModels(
+      ['local:stub-model'],
+      [{ role: 'user', content: 'hello' }],
+      { signal: controller.signal }
+    );
+    expect(cancelled[0].status).toBe('cancelled');
+    expect(requestCounts.get('stub-model')).toBe(before);
+  });
+
+  it('should fail fast on non-retryable errors', async () => {
+    const response = await client.queryModel('local:unauthorized-model', [
+      { role: 'user', content: 'hello' },
+    ]);
+
+    expect(response.status).toBe('error');
+    expect(response.meta?.errorKind).toBe('auth');
+    expect(response.meta?.retries).toHaveLength(1);
+    expect(requestCounts.get('unauthorized-model')).toBe(1);
+  });
+
+  it('should honour Retry-After when rate limited', async () => {
+    const response = await client.queryModel('local:flaky-model', [
+      { role: 'user', content: 'hello' },
+    ]);
+
+    expect(response.status).toBe('success');
+    expect(response.meta?.retries).toHaveLength(1);
+    expect(response.meta?.retries?.[0]).toMatchObject({ kind: 'rateLimited', statusCode: 429 });
+    expect(response.meta?.retries?.[0].delayMs).toBeGreaterThanOrEqual(10);
+    expect(response.meta?.retries?.[0].delayMs).toBeLessThanOrEqual(12);
+  });
+
+  it('should skip a model once its circuit opens, until its cooldown is over', async () => {
+    const options = { retry: { circuitBreakerThreshold: 2, circuitBreakerCooldownMs: 50 } };
+    const messages = [{ role: 'user' as const, content: 'hello' }];
+
+    await client.queryModel('local:unauthorized-breaker', messages, options);
+    await client.queryModel('local:unauthorized-breaker', messages, options);
+    const response = await client.queryModel('local:unauthorized-breaker', messages, options);
+
+    expect(response.status).toBe('error');
+    expect(response.error).toMatch(/^Skipped:/);
+    expect(requestCounts.get('unauthorized-breaker')).toBe(2);
+
+    // Votes are skipped too, then a single probe goes through after the cooldown
+    const schema = z.object({ choice: z.string() });
+    const vote = await client.generateStructured(
+      'local:unauthorized-breaker',
+      messages,
+      schema,
+      options
+    );
+    expect(vote.error).toMatch(/^Skipped:/);
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    await Promise.all([
+      client.queryModel('local:unauthorized-breaker', messages, options),
+      client.queryModel('local:unauthorized-breaker', messages, options),
+    ]);
+    expect(requestCounts.get('unauthorized-breaker')).toBe(3);
+  });
+
+  it('should not hold failures of the request against the model', () => {
+    const breaker = new CircuitBreaker();
+    const policy = { ...DEFAULT_RETRY_POLICY, circuitBreakerThreshold: 1 };
+
+    breaker.recordFailure('model', 'contentFiltered', policy);
+    expect(breaker.isOpen('model', policy)).toBe(false);
+    breaker.recordFailure('model', 'overloaded', policy);
+    expect(breaker.isOpen('model', policy)).toBe(true);
+  });
+
+  it('should answer a failing seat with its fallback and keep it across rounds', async () => {
+    const rounds = await client.runConsensusRounds(
+      ['local:unauthorized-seat', 'local:stub-model'],
+      'hello',
+      'system',
+      2,
+      { fallbacks: { 'local:unauthorized-seat': ['local:delayed-fallback'] } }
+    );
+
+    rounds.forEach((round) => {
+      expect(round[0]).toMatchObject({
+        model: 'local:unauthorized-seat',
+        answeredBy: 'local:delayed-fallback',
+        status: 'success',
+      });
+    });
+    expect(rounds[1][0].content).toMatch(/^delayed-fallback heard: /);
+    expect(requestCounts.get('unauthorized-seat')).toBe(1);
+  });
+
+  it('should report seats sitting out as skipped', async () => {
+    const progress: string[] = [];
+    await client.runVote(
+      ['local:unauthorized-voter', 'local:voter-a'],
+      'Tabs?',
+      'system',
+      ['yes', 'no'],
+      2,
+      {},
+      (round, model, status) =>
+        status !== 'querying' && progress.push(`${round} ${model} ${status}`)
+    );
+
+    expect(progress.sort()).toEqual([
+      '1 local:unauthorized-voter complete',
+      '1 local:voter-a complete',
+      '2 local:unauthorized-voter skipped',
+      '2 local:voter-a complete',
+    ]);
+  });
+
+  it('should seat the same model twice with its own system prompts', async () => {
+    const rounds = await client.runConsensusRounds(
+      ['local:system-echo#securityExpert', 'local:system-echo#pragmatist'],
+      'hello',
+      'shared',
+      2,
+      { systemPrompts: ['Think like an attacker.', 'Ship it.'] }
+    );
+
+    rounds.forEach((round) => {
+      expect(round.map((r) => [r.model, r.content])).toEqual([
+        ['local:system-echo#securityExpert', 'system-echo heard: Think like an attacker.'],
+        ['local:system-echo#pragmatist', 'system-echo heard: Ship it.'],
+      ]);
+    });
+  });
+
+  it('should continue a discussion after its earlier rounds', async () => {
+    const seats = ['local:continued-one', 'local:continued-two'];
+    const earlierRounds = await client.runConsensusRounds(seats, 'hello', 'system', 1);
+    const rounds = await client.runConsensusRounds(seats, 'hello', 'system', 3, { earlierRounds });
+
+    expect(rounds).toHaveLength(3);
+    expect(rounds[0]).toBe(earlierRounds[0]);
+    expect(rounds[2][0].content).toMatch(/^continued-one heard: /);
+    expect(requestCounts.get('continued-one')).toBe(3);
+  });
+
+  it('should answer identical queries from the cache at no cost', async () => {
+    const { port } = server.address() as AddressInfo;
+    const cachingClient = new CouncilClient({
+      apiKey: 'unused',
+      providers: {
+        local: { type: 'openai-compatible', baseURL: `http://127.0.0.1:${port}/v1` },
+      },
+      cache: new ResponseCache(),
+    });
+    const messages = [{ role: 'user' as const, content: 'cache me' }];
+
+    const first = await cachingClient.queryModel('local:cached-model', messages);
+    const second = await cachingClient.queryModel('local:cached-model', messages);
+    expect(second.content).toBe(first.content);
+    expect(second.meta).toMatchObject({ cached: true, estimatedCost: 0 });
+    expect(requestCounts.get('cached-model')).toBe(1);
+
+    const refreshed = await cachingClient.queryModel('local:cached-model', messages, {
+      cache: 'refresh',
+    });
+    expect(refreshed.meta?.cached).toBeUndefined();
+    await cachingClient.queryModel('local:cached-model', messages, { temperature: 0.2 });
+    await cachingClient.queryModel('local:cached-model', messages, { cache: 'off' });
+    expect(requestCounts.get('cached-model')).toBe(4);
+  });
+
+  it('should show peers under pseudonyms and record who they were', async () => {
+    const seats = ['local:stub-model', 'local:peer-one', 'local:peer-two'];
+    const rounds = await client.runConsensusRounds(seats, 'hello', 'system', 2, {
+      peerReview: { anonymize: true, shuffle: true, hideOwnAnswer: true },
+    });
+
+    rounds[1].forEach((response) => {
+      expect(response.content).toContain('**Respondent C**');
+      expect(response.content).not.toContain('**local:');
+      expect(Object.values(response.peerLabels!).sort()).toEqual([...seats].sort());
+    });
+  });
+
+  it("should rank the elders by their peers' ballots", async () => {
+    const responses = await client.queryMultipleModels(
+      ['local:rank-a', 'local:rank-b', 'local:rank-c'],
+      [{ role: 'user', content: 'hello' }]
+    );
+    const ranking = await client.rankResponses('hello', 'system', responses);
+
+    expect(ranking.ballots).toHaveLength(3);
+    ranking.ballots.forEach((ballot) => {
+      expect(ballot.error).toBeUndefined();
+      expect(ballot.order).toHaveLength(2);
+      expect(ballot.order).not.toContain(ballot.ranker);
+    });
+    expect(ranking.leaderboard.reduce((sum, entry) => sum + entry.points, 0)).toBe(3);
+    expect(ranking.winner).toBe(ranking.leaderboard[0].model);
+  });
+
+  it('should keep the whole structured synthesis, not just its summary', async () => {
+    const synthesis = await client.generateStructuredSynthesis('local:synthesizer', [
+      { role: 'user', content: 'Synthesize' },
+    ]);
+
+    expect(synthesis).toMatchObject({ status: 'success', content: 'synthesizer summary' });
+    expect(synthesis.structured).toMatchObject({
+      keyPoints: ['Agreed point'],
+      disagreements: ['Open question'],
+      confidence: 0.8,
+    });
+    expect(synthesis.meta?.totalTokens).toBe(15);
+  });
+
+  it('should run a debate with alternating turns and a judged verdict', async () => {
+    const seats = assignDebateSeats([
+      'local:stub-model',
+      { model: 'local:critic-model', role: 'critic' },
+      { model: 'local:judge-model', role: 'judge' },
+    ]);
+    const { rounds, verdict } = await client.runDebate(seats, 'Tabs or spaces?', 'system', 2);
+
+    expect(rounds).toHaveLength(2);
+    expect(rounds[0].map((r) => r.role)).toEqual([
+      'Proponent (Option A)',
+      "Critic (Devil's Advocate)",
+    ]);
+    expect(rounds[1][0].content).toContain('Rebut their strongest points');
+    expect(rounds[1][0].content).toContain("Critic (Devil's Advocate)");
+    expect(verdict).toMatchObject({ model: 'local:judge-model', role: 'Judge', status: 'success' });
+    expect(verdict?.content).toContain('=== Round 2 (rebuttals) ===');
+    expect(verdict?.content).toContain('Deliver your verdict');
+  });
+
+  it('should time out a judge that misses the deadline', async () => {
+    const seats = assignDebateSeats([
+      'local:stub-model',
+      'local:critic-model',
+      { model: 'local:slow-judge', role: 'judge' },
+    ]);
+    const { rounds, verdict } = await client.runDebate(seats, 'Tabs or spaces?', 'system', 1, {
+      timeoutMs: 200,
+    });
+
+    expect(rounds[0].every((r) => r.status === 'success')).toBe(true);
+    expect(verdict).toMatchObject({
+      model: 'local:slow-judge',
+      role: 'Judge',
+      status: 'timedOut',
+      error: 'Timed out after 0.2s',
+    });
+  });
+
+  it('should let voters change their votes after seeing the tally', async () => {
+    const rounds = await client.runVote(
+      ['local:voter-a', 'local:voter-b', 'local:contrarian-c'],
+      'Tabs?',
+      'system',
+      ['yes', 'no'],
+      2
+    );
+
+    expect(rounds[0].map((r) => r.vote?.choice)).toEqual(['yes', 'yes', 'no']);
+    expect(rounds[1].map((r) => r.vote?.choice)).toEqual(['yes', 'yes', 'yes']);
+    expect(rounds[1].map((r) => r.revised)).toEqual([false, false, true]);
+    expect(rounds[1][2].content).toContain('- yes: 2 votes\n- no: 1 vote');
+    expect(rounds[1][2].content).toContain('You voted "no"');
+  });
+});
@@ -0,0 +1,86 @@
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  applyQueryOptions,
+  isSingleRound,
+  resolveToolFiles,
+  toolInputProperties,
+} from './query-options.js';
+
+describe('Query options', () => {
+  it('should offer MCP tools every option that shapes the query', () => {
+    const properties = toolInputProperties();
+    expect(Object.keys(properties)).toEqual(
+      expect.arrayContaining(['single', 'firstN', 'web', 'timeLimit', 'choices'])
+    );
+    expect(properties).not.toHaveProperty('json');
+    expect(properties).not.toHaveProperty('export');
+    expect(properties.files).toMatchObject({ type: 'array', items: { type: 'string' } });
+    expect(properties.firstN).toMatchObject({ type: 'integer', minimum: 1 });
+    expect(properties.choices).toMatchObject({ type: 'array', items: { type: 'string' } });
+    expect(properties.webContext).toMatchObject({ enum: ['low', 'medium', 'high'] });
+  });
+
+  it("should overlay options on the council's defaults", () => {
+    const council = {
+      models: ['one', 'two'],
+      rounds: 2,
+      defaults: { temperature: 0.3, webMaxResults: 3, timeLimit: 30 },
+    };
+
+    const config = applyQueryOptions(council, { structured: true, timeLimit: 10, refresh: true });
+    expect(config.rounds).toBe(2);
+    expect(config.defaults).toMatchObject({
+      temperature: 0.3,
+      single: true,
+      structured: true,
+      webMaxResults: 3,
+      timeLimit: 10,
+      cache: 'refresh',
+    });
+    expect(isSingleRound(applyQueryOptions(council, {}))).toBe(false);
+    expect(isSingleRound(applyQueryOptions({ models: ['one'] }, {}))).toBe(true);
+    expect(isSingleRound(applyQueryOptions({ models: ['one'] }, { single: true }))).toBe(false);
+  });
+
+  it('should keep a temperature or time limit of 0', () => {
+    const council = { models: ['one'], defaults: { temperature: 0.3, timeLimit: 30 } };
+
+    expect(applyQueryOptions(council, { temperature: 0, timeLimit: 0 }).defaults).toMatchObject({
+      temperature: 0,
+      timeLimit: 0,
+    });
+    expect(
+      applyQueryOptions({ models: ['one'], defaults: { temperature: 0 } }, {}).defaults?.temperature
+    ).toBe(0);
+  });
+
+  it('should only attach files under the files root for MCP clients', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'coe-files-'));
+    try {
+      const root = path.join(dir, 'shared');
+      mkdirSync(root);
+      writeFileSync(path.join(root, 'notes.md'), 'notes');
+      writeFileSync(path.join(dir, 'secret.txt'), 'secret');
+      symlinkSync(path.join(dir, 'secret.txt'), path.join(root, 'link.txt'));
+
+      await expect(resolveToolFiles(['notes.md'], root)).resolves.toHaveLength(1);
+      await expect(resolveToolFiles(['../secret.txt'], root)).rejects.toThrow(
+        'outside the files root'
+      );
+      await expect(resolveToolFiles([path.join(dir, 'secret.txt')], root)).rejects.toThrow(
+        'outside the files root'
+      );
+      await expect(resolveToolFiles(['link.txt'], root)).rejects.toThrow('outside the files root');
+      await expect(resolveToolFiles(['notes.md'], undefined)).rejects.toThrow(
+        'Attaching files is disabled'
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
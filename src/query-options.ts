@@ -0,0 +1,351 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { maxRoundsFor } from './convergence.js';
+import { CacheMode } from './response-cache.js';
+import { CliOptions, CouncilConfig } from './types.js';
+import { parseChoices } from './voting.js';
+
+/**
+ * An option of a council query, defined once for the command line and the
+ * MCP tools
+ */
+export interface QueryOption {
+  /** Property of `CliOptions`, and the MCP tool argument */
+  name: keyof CliOptions;
+  /** Command-line flags, e.g. `-r, --rounds <N>` */
+  flags: string;
+  description: string;
+  /** JSON Schema type of the tool argument; arrays hold strings */
+  type: 'boolean' | 'integer' | 'number' | 'string' | 'array';
+  /** Converts the flag's value */
+  parse?: (value: string) => unknown;
+  defaultValue?: unknown;
+  minimum?: number;
+  maximum?: number;
+  enum?: string[];
+  /** The tool argument's description, where the flag's reads wrong */
+  toolDescription?: string;
+  /** Only on the command line: output, export and config file options */
+  cliOnly?: boolean;
+}
+
+/**
+ * Options of `coe <prompt>`, in the order `coe --help` lists them
+ */
+export const QUERY_OPTIONS: QueryOption[] = [
+  {
+    name: 'rounds',
+    flags: '-r, --rounds <N>',
+    description: 'Number of consensus rounds (default: from config or 1)',
+    type: 'integer',
+    parse: parseInt,
+    minimum: 1,
+  },
+  {
+    name: 'maxRounds',
+    flags: '--max-rounds <N>',
+    description: 'Run consensus rounds until the elders stop revising, up to N rounds',
+    type: 'integer',
+    parse: parseInt,
+    minimum: 1,
+  },
+  {
+    name: 'convergenceThreshold',
+    flags: '--convergence-threshold <0-1>',
+    description: 'Answer similarity at which an elder counts as unchanged (default: 0.9)',
+    type: 'number',
+    parse: parseFloat,
+    minimum: 0,
+    maximum: 1,
+  },
+  {
+    name: 'json',
+    flags: '-j, --json',
+    description: 'Output as JSON instead of plain text',
+    type: 'boolean',
+    cliOnly: true,
+  },
+  {
+    name: 'meta',
+    flags: '-m, --meta',
+    description: 'Include metadata (tokens, cost, latency)',
+    type: 'boolean',
+    cliOnly: true,
+  },
+  {
+    name: 'showModels',
+    flags: '-s, --show-models',
+    description: 'Show model identities (hidden by default)',
+    type: 'boolean',
+    cliOnly: true,
+  },
+  {
+    name: 'single',
+    flags: '-S, --single',
+    description: 'Synthesize all responses into a single unified answer',
+    type: 'boolean',
+  },
+  {
+    name: 'structured',
+    flags: '--structured',
+    description:
+      'Synthesize a structured answer with key points, disagreements and confidence (implies --single)',
+    type: 'boolean',
+    toolDescription:
+      'Synthesize a structured answer with key points, disagreements and confidence (implies single)',
+  },
+  {
+    name: 'rank',
+    flags: '--rank',
+    description: "Have the elders rank each other's anonymised answers and lead with the winner",
+    type: 'boolean',
+  },
+  {
+    name: 'choices',
+    flags: '--choices <list>',
+    description: 'Have the elders vote between comma-separated options, e.g. yes,no',
+    type: 'array',
+    parse: parseChoices,
+    toolDescription: 'Have the elders vote between these options, e.g. ["yes", "no"]',
+  },
+  {
+    name: 'temperature',
+    flags: '-t, --temperature <temp>',
+    description: 'Temperature for responses (0-1)',
+    type: 'number',
+    parse: parseFloat,
+    defaultValue: 0.7,
+    minimum: 0,
+    maximum: 1,
+  },
+  {
+    name: 'files',
+    flags: '-f, --files <paths...>',
+    description: 'Files to append to the prompt',
+    type: 'array',
+    toolDescription:
+      "Files to append to the prompt, as paths under the server's configured files root",
+  },
+  {
+    name: 'council',
+    flags: '-c, --council <name>',
+    description: 'Use a specific council configuration',
+    type: 'string',
+    cliOnly: true,
+  },
+  {
+    name: 'model',
+    flags: '--model <model>',
+    description: 'Query a single model instead of a council',
+    type: 'string',
+    cliOnly: true,
+  },
+  {
+    name: 'firstN',
+    flags: '-n, --first-n <count>',
+    description: 'Only use the first N models to respond',
+    type: 'integer',
+    parse: parseInt,
+    minimum: 1,
+  },
+  {
+    name: 'export',
+    flags: '-e, --export <format>',
+    description: 'Export conversation to file (markdown, json, txt)',
+    type: 'string',
+    cliOnly: true,
+  },
+  {
+    name: 'web',
+    flags: '-w, --web',
+    description: 'Enable web search for all models',
+    type: 'boolean',
+  },
+  {
+    name: 'webMaxResults',
+    flags: '--web-max-results <N>',
+    description: 'Maximum web search results (default: 5)',
+    type: 'integer',
+    parse: parseInt,
+    minimum: 1,
+  },
+  {
+    name: 'webContext',
+    flags: '--web-context <size>',
+    description: 'Web search context size for native search (low, medium, high)',
+    type: 'string',
+    enum: ['low', 'medium', 'high'],
+  },
+  {
+    name: 'timeLimit',
+    flags: '--time-limit <seconds>',
+    description: 'Deadline per model per round (slower models are cancelled)',
+    type: 'number',
+    parse: parseFloat,
+    minimum: 0,
+  },
+  {
+    name: 'roundTimeLimit',
+    flags: '--round-time-limit <seconds>',
+    description: 'Deadline for each whole round (models still pending are cancelled)',
+    type: 'number',
+    parse: parseFloat,
+    minimum: 0,
+  },
+  {
+    name: 'config',
+    flags: '--config <path>',
+    description: 'Path to config file (overrides default config discovery)',
+    type: 'string',
+    cliOnly: true,
+  },
+  {
+    name: 'stream',
+    flags: '--stream',
+    description: "Stream each elder's answer live as it is generated",
+    type: 'boolean',
+    cliOnly: true,
+  },
+  {
+    name: 'cache',
+    flags: '--no-cache',
+    description: 'Query the models even when an identical query was answered before',
+    type: 'boolean',
+    toolDescription:
+      'Set to false to query the models even when an identical query was answered before',
+  },
+  {
+    name: 'refresh',
+    flags: '--refresh',
+    description: 'Query the models and replace their cached answers',
+    type: 'boolean',
+  },
+];
+
+/**
+ * JSON Schema properties of the query options MCP tools accept
+ */
+export function toolInputProperties(): Record<string, Record<string, unknown>> {
+  return Object.fromEntries(
+    QUERY_OPTIONS.filter((option) => !option.cliOnly).map((option) => [
+      option.name,
+      {
+        type: option.type,
+        ...(option.type === 'array' ? { items: { type: 'string' } } : {}),
+        description: option.toolDescription || option.description,
+        ...(option.minimum !== undefined ? { minimum: option.minimum } : {}),
+        ...(option.maximum !== undefined ? { maximum: option.maximum } : {}),
+        ...(option.enum ? { enum: option.enum } : {}),
+      },
+    ])
+  );
+}
+
+/**
+ * Overlay query options on a council's configuration; options left unset
+ * keep the council's defaults
+ */
+export function applyQueryOptions(config: CouncilConfig, options: CliOptions): CouncilConfig {
+  return {
+    ...config,
+    rounds: options.rounds || config.rounds || 1,
+    maxRounds: options.maxRounds || config.maxRounds,
+    convergenceThreshold: options.convergenceThreshold ?? config.convergenceThreshold,
+    choices: options.choices || config.choices,
+    defaults: {
+      ...config.defaults,
+      temperature: options.temperature ?? config.defaults?.temperature ?? 0.7,
+      firstN: options.firstN || config.defaults?.firstN,
+      single:
+        options.single ||
+        options.structured ||
+        config.defaults?.single ||
+        config.defaults?.structured ||
+        false,
+      structured: options.structured || config.defaults?.structured || false,
+      rank: options.rank || config.defaults?.rank || false,
+      web: options.web !== undefined ? options.web : config.defaults?.web || false,
+      webMaxResults: options.webMaxResults || config.defaults?.webMaxResults || 5,
+      webContext: options.webContext || config.defaults?.webContext,
+      timeLimit: options.timeLimit ?? config.defaults?.timeLimit,
+      roundTimeLimit: options.roundTimeLimit ?? config.defaults?.roundTimeLimit,
+      cache: cacheMode(options) ?? config.defaults?.cache,
+    },
+  };
+}
+
+/**
+ * How the query uses the response cache, if the options say
+ */
+export function cacheMode(options: CliOptions): CacheMode | undefined {
+  if (options.refresh) return 'refresh';
+  return options.cache === false ? 'off' : undefined;
+}
+
+/**
+ * Whether a query is a single round of answers. A debate always ends with
+ * the judge's verdict and a vote with its tally, even after a single round.
+ */
+export function isSingleRound(config: CouncilConfig): boolean {
+  return (
+    maxRoundsFor(config) === 1 &&
+    config.mode !== 'debate' &&
+    !config.choices &&
+    !config.defaults?.rank &&
+    !config.defaults?.single
+  );
+}
+
+/**
+ * Resolve the files an MCP client asked to attach. They must lie under the
+ * configured root, after following symlinks, so clients cannot read anything
+ * else the server can.
+ */
+export async function resolveToolFiles(
+  files: string[],
+  root: string | undefined
+): Promise<string[]> {
+  if (!root) {
+    throw new Error('Attaching files is disabled: set mcp.filesRoot in the config to allow it');
+  }
+  const base = await fs.realpath(root);
+
+  return Promise.all(
+    files.map(async (file) => {
+      const resolved = path.resolve(base, file);
+      // A missing file is reported when it is read
+      const real = await fs.realpath(resolved).catch(() => resolved);
+      const relative = path.relative(base, real);
+      if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+        throw new Error(`File ${file} is outside the files root ${root}`);
+      }
+      return real;
+    })
+  );
+}
+
+/**
+ * Append the contents of files to a prompt, each under its file name
+ */
+export async function appendFileContents(prompt: string, files: string[]): Promise<string> {
+  const fileContents: string[] = [];
+
+  for (const filePath of files) {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      throw new Error(
+        `Error reading file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    fileContents.push(`\n\n### ${path.basename(filePath)}\n\`\`\`\n${content}\n\`\`\``);
+  }
+
+  if (fileContents.length > 0) {
+    prompt += '\n\n## Attached Files:' + fileContents.join('');
+  }
+
+  return prompt;
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+
+import { RankingBallot, tallyRankings, toBallot } from './ranking.js';
+
+const ballot = (ranker: string, order: string[]): RankingBallot => ({
+  ranker,
+  order,
+  justifications: {},
+});
+
+describe('Peer ranking', () => {
+  it('should map pseudonyms back to seats and drop unknown or repeated labels', () => {
+    const result = toBallot(
+      'a',
+      {
+        ranking: [
+          { respondent: '**Respondent B**', justification: 'Most complete' },
+          { respondent: 'Respondent C', justification: 'Unknown' },
+          { respondent: 'Respondent A', justification: 'Thin' },
+          { respondent: 'Respondent B', justification: 'Repeated' },
+        ],
+      },
+      { 'Respondent A': 'c', 'Respondent B': 'b' }
+    );
+
+    expect(result.order).toEqual(['b', 'c']);
+    expect(result.justifications).toEqual({ b: 'Most complete', c: 'Thin' });
+  });
+
+  it('should tally ballots with a Borda count', () => {
+    const ranking = tallyRankings(
+      ['a', 'b', 'c'],
+      [ballot('a', ['b', 'c']), ballot('b', ['a', 'c']), ballot('c', ['b', 'a'])]
+    );
+
+    expect(ranking.winner).toBe('b');
+    expect(ranking.leaderboard).toEqual([
+      { model: 'b', points: 2, firstPlaces: 2 },
+      { model: 'a', points: 1, firstPlaces: 1 },
+      { model: 'c', points: 0, firstPlaces: 0 },
+    ]);
+    expect(ranking.matrix).toEqual({
+      a: { b: 1, c: 2 },
+      b: { a: 1, c: 2 },
+      c: { b: 1, a: 2 },
+    });
+  });
+
+  it('should declare no winner when every ballot failed', () => {
+    const ranking = tallyRankings(['a', 'b'], [{ ...ballot('a', []), error: 'Invalid JSON' }]);
+
+    expect(ranking.winner).toBeUndefined();
+    expect(ranking.matrix).toEqual({});
+  });
+});
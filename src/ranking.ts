@@ -0,0 +1,124 @@
+import { z } from 'zod';
+
+import { ModelResponse } from './council-client.js';
+import { PeerReview } from './peer-review.js';
+
+// Schema for an elder's ranking of its peers' answers
+export const RankingSchema = z.object({
+  ranking: z
+    .array(
+      z.object({
+        respondent: z.string().describe('The answer\'s label, e.g. "Respondent A"'),
+        justification: z.string().describe('One or two sentences on why it ranks here'),
+      })
+    )
+    .describe('Every answer, best first'),
+});
+
+export type Ranking = z.infer<typeof RankingSchema>;
+
+/**
+ * One elder's ranking of the other seats' answers
+ */
+export interface RankingBallot {
+  ranker: string;
+  /** Seat models, best first */
+  order: string[];
+  justifications: Record<string, string>;
+  error?: string;
+  meta?: ModelResponse['meta'];
+}
+
+export interface LeaderboardEntry {
+  model: string;
+  /** Borda points: each ballot awards one point per answer ranked below this one */
+  points: number;
+  firstPlaces: number;
+}
+
+export interface PeerRanking {
+  ballots: RankingBallot[];
+  /** Ranker → candidate → place (1 is best) */
+  matrix: Record<string, Record<string, number>>;
+  /** Highest points first */
+  leaderboard: LeaderboardEntry[];
+  /** Seat whose answer won; undefined when no ballot was cast */
+  winner?: string;
+}
+
+/**
+ * Prompt asking an elder to rank the anonymized answers in `review`
+ */
+export function buildRankingPrompt(question: string, review: PeerReview): string {
+  let prompt = `Question: "${question}"\n\nOther council members answered:\n\n`;
+
+  review.entries.forEach(({ label, response }) => {
+    prompt += `**${label}**:\n${response.content}\n\n`;
+  });
+
+  prompt +=
+    'Rank every answer from best to worst by correctness, completeness and usefulness, with a short justification for each place. Judge the answers on their merits, not on their length or confidence.';
+
+  return prompt;
+}
+
+/**
+ * Turn an elder's ranking of pseudonyms into a ballot of seat models. Unknown
+ * or repeated labels are dropped.
+ */
+export function toBallot(
+  ranker: string,
+  ranking: Ranking,
+  labels: Record<string, string>
+): RankingBallot {
+  const order: string[] = [];
+  const justifications: Record<string, string> = {};
+
+  ranking.ranking.forEach(({ respondent, justification }) => {
+    const model = labels[respondent.replace(/\*/g, '').trim()];
+    if (model && !order.includes(model)) {
+      order.push(model);
+      justifications[model] = justification;
+    }
+  });
+
+  return { ranker, order, justifications };
+}
+
+/**
+ * Aggregate ballots with a Borda count. Ties go to the answer with more first
+ * places, then to the earlier seat.
+ */
+export function tallyRankings(candidates: string[], ballots: RankingBallot[]): PeerRanking {
+  const matrix: PeerRanking['matrix'] = {};
+  const scores = new Map<string, LeaderboardEntry>(
+    candidates.map((model) => [model, { model, points: 0, firstPlaces: 0 }])
+  );
+
+  ballots
+    .filter((ballot) => !ballot.error)
+    .forEach((ballot) => {
+      matrix[ballot.ranker] = {};
+      ballot.order.forEach((model, place) => {
+        const entry = scores.get(model);
+        if (!entry) return;
+        matrix[ballot.ranker][model] = place + 1;
+        entry.points += ballot.order.length - 1 - place;
+        if (place === 0) entry.firstPlaces++;
+      });
+    });
+
+  const leaderboard = [...scores.values()].sort(
+    (a, b) =>
+      b.points - a.points ||
+      b.firstPlaces - a.firstPlaces ||
+      candidates.indexOf(a.model) - candidates.indexOf(b.model)
+  );
+
+  return {
+    ballots,
+    matrix,
+    leaderboard,
+    winner: Object.keys(matrix).length > 0 ? leaderboard[0]?.model : undefined,
+  };
+}
@@ -2,6 +2,11 @@ import chalk from 'chalk';
 import { groupBy } from 'lodash-es';
 
 import { ModelResponse } from './council-client.js';
+import { describePeerLabels } from './peer-review.js';
+import { PeerRanking } from './ranking.js';
+import { Synthesis } from './synthesis-schema.js';
+import { ConsensusResponse } from './types.js';
+import { VoteTally } from './voting.js';
 
 export interface ResponseBuilderOptions {
   showModels?: boolean;
@@ -10,7 +15,7 @@ export interface ResponseBuilderOptions {
   elderNames?: string[];
 }
 
-const DEFAULT_ELDER_NAMES = [
+export const DEFAULT_ELDER_NAMES = [
   'Elder Alpha',
   'Elder Beta',
   'Elder Gamma',
@@ -38,14 +43,34 @@ export class ResponseBuilder {
    */
   buildSingle(response: ModelResponse, index: number = 0): string {
     const { showModels, showMeta, elderNames } = this.options;
-    const displayName = showModels ? response.model : elderNames![index % elderNames!.length];
+    const modelName = response.answeredBy
+      ? `${response.model} → ${response.answeredBy}`
+      : response.model;
+    const displayName = [
+      showModels ? modelName : elderNames![index % elderNames!.length],
+      response.role,
+    ]
+      .filter(Boolean)
+      .join(' — ');
 
     let output = chalk.bold.green(`📜 ${displayName}\n`);
 
     if (response.error) {
       output += chalk.red(`\n❌ Error: ${response.error}\n`);
     } else {
-      output += `\n${response.content}\n`;
+      if (response.vote) {
+        output += chalk.bold(
+          `\nVote: ${response.vote.choice} (${Math.round(response.vote.confidence * 100)}% confident)\n`
+        );
+      }
+      output += `\n${response.structured ? this.buildStructured(response.structured) : response.content}\n`;
+
+      // Which seat each anonymized peer was, when models are shown
+      if (showModels && response.peerLabels) {
+        output += chalk.gray(
+          `\nReviewed peers as: ${describePeerLabels(response.peerLabels, (model) => model)}\n`
+        );
+      }
 
       // Citations
       if (response.citations && response.citations.length > 0) {
@@ -60,8 +85,11 @@ export class ResponseBuilder {
         output += chalk.gray('\nMetadata:\n');
         output += chalk.gray(`  • Tokens: ${response.meta.totalTokens || 'N/A'}\n`);
         output += chalk.gray(`  • Latency: ${response.meta.latencyMs || 'N/A'}ms\n`);
+        if (response.meta.queueWaitMs) {
+          output += chalk.gray(`  • Queue Wait: ${response.meta.queueWaitMs}ms\n`);
+        }
         output += chalk.gray(
-          `  • Est. Cost: $${response.meta.estimatedCost?.toFixed(4) || 'N/A'}\n`
+          `  • Est. Cost: $${response.meta.estimatedCost?.toFixed(4) || 'N/A'}${response.meta.cached ? ' (cached)' : ''}\n`
         );
       }
     }
@@ -73,11 +101,10 @@ export class ResponseBuilder {
    * Build multiple responses output
    */
   buildMultiple(responses: ModelResponse[], round: number = 1): string {
-    const grouped = groupBy(responses, (r) =>
-      r.error ? (r.error.includes('first-n limit reached') ? 'skipped' : 'failed') : 'success'
-    );
+    const grouped = groupBy(responses, (r) => r.status ?? (r.error ? 'error' : 'success'));
 
     const activeResponses = grouped.success || [];
+    const timedOutResponses = grouped.timedOut || [];
 
     let output = chalk.bold.cyan(
       `\n🧙 Council of Elders Response${round > 1 ? ` (Round ${round})` : ''}\n`
@@ -92,9 +119,22 @@ export class ResponseBuilder {
       }
     });
 
+    if (timedOutResponses.length > 0) {
+      output += chalk.yellow(
+        `\n⏱  ${this.describeTimedOut(timedOutResponses)} timed out and ${timedOutResponses.length === 1 ? 'was' : 'were'} left out\n`
+      );
+    }
+
     return output;
   }
 
+  private describeTimedOut(responses: ModelResponse[]): string {
+    if (this.options.showModels) {
+      return responses.map((r) => `${r.model} (${r.error})`).join(', ');
+    }
+    return responses.length === 1 ? '1 elder' : `${responses.length} elders`;
+  }
+
   /**
    * Build JSON output
    */
@@ -102,13 +142,19 @@ export class ResponseBuilder {
     const { showModels, showMeta, elderNames } = this.options;
 
     return responses
-      .filter((r) => !r.error || !r.error.includes('first-n limit reached'))
+      .filter((r) => r.status !== 'cancelled')
       .map((r, index) => ({
         elder: showModels ? r.model : elderNames![index % elderNames!.length],
         ...(showModels ? { model: r.model } : {}),
+        ...(showModels && r.answeredBy ? { answeredBy: r.answeredBy } : {}),
+        ...(r.role ? { role: r.role } : {}),
+        ...(showModels && r.peerLabels ? { peerLabels: r.peerLabels } : {}),
         answer: r.content || null,
         error: r.error || null,
+        ...(r.status === 'timedOut' ? { timedOut: true } : {}),
         ...(r.citations && r.citations.length > 0 ? { citations: r.citations } : {}),
+        ...(r.structured ? { structured: r.structured } : {}),
+        ...(r.vote ? { vote: r.vote } : {}),
         ...(showMeta && r.meta ? { meta: r.meta } : {}),
       }));
   }
@@ -121,7 +167,9 @@ export class ResponseBuilder {
       return chalk.red(`Error: ${response.error}`);
     }
 
-    let output = response.content || '';
+    let output = response.structured
+      ? this.buildStructured(response.structured)
+      : response.content || '';
 
     // Display citations if available
     if (response.citations && response.citations.length > 0) {
@@ -134,6 +182,199 @@ export class ResponseBuilder {
     return output;
   }
 
+  /**
+   * Build structured synthesis output: the summary, then confidence, key
+   * points, disagreements, recommendations and each elder's contribution
+   */
+  buildStructured(synthesis: Synthesis): string {
+    const section = (title: string, items: string[] | undefined) =>
+      items && items.length > 0
+        ? `\n${chalk.bold(title)}\n${items.map((item) => `  • ${item}`).join('\n')}\n`
+        : '';
+
+    let output = `${synthesis.summary}\n`;
+    output += chalk.gray(`\nConfidence: ${Math.round(synthesis.confidence * 100)}%\n`);
+    output += section('Key Points:', synthesis.keyPoints);
+    output += section('Disagreements:', synthesis.disagreements);
+    output += section('Recommendations:', synthesis.recommendations);
+    output += section(
+      'Perspectives:',
+      synthesis.perspectives.map((p) => `${p.model}: ${p.contribution}`)
+    );
+    output += section(
+      'Citations:',
+      synthesis.citations?.map((c) => `${c.source} - ${c.url}`)
+    );
+
+    return output;
+  }
+
+  /**
+   * Build peer ranking output: the leaderboard followed by the winning answer
+   */
+  buildRanking(ranking: PeerRanking, responses: ModelResponse[]): string {
+    const name = this.seatNamer(responses);
+    const winner = responses.find((r) => r.model === ranking.winner);
+
+    let output = chalk.bold.cyan('\n🏆 Peer Ranking\n');
+    output += chalk.gray('─'.repeat(60)) + '\n';
+    ranking.leaderboard.forEach((entry, i) => {
+      const firsts =
+        entry.firstPlaces === 1 ? '1 first place' : `${entry.firstPlaces} first places`;
+      output += `${i + 1}. ${name(entry.model)} - ${entry.points} pts (${firsts})\n`;
+    });
+
+    const failed = ranking.ballots.filter((ballot) => ballot.error);
+    if (failed.length > 0) {
+      output += chalk.yellow(
+        `\n${failed.length === 1 ? '1 ballot' : `${failed.length} ballots`} failed and ${failed.length === 1 ? 'was' : 'were'} not counted\n`
+      );
+    }
+
+    if (!winner) {
+      return output + chalk.red('\n❌ Error: No elder returned a ranking\n');
+    }
+    output += chalk.bold.green(`\n📜 Best answer - ${name(winner.model)}\n`);
+    return output + `\n${winner.content}\n`;
+  }
+
+  /**
+   * Build peer ranking JSON: the winning answer, leaderboard and full ranking matrix
+   */
+  buildRankingJSON(ranking: PeerRanking, responses: ModelResponse[]): Record<string, unknown> {
+    const name = this.seatNamer(responses);
+    const rename = <T>(record: Record<string, T>) =>
+      Object.fromEntries(Object.entries(record).map(([model, value]) => [name(model), value]));
+
+    return {
+      answer: responses.find((r) => r.model === ranking.winner)?.content || null,
+      winner: ranking.winner ? name(ranking.winner) : null,
+      leaderboard: ranking.leaderboard.map(({ model, points, firstPlaces }) => ({
+        elder: name(model),
+        points,
+        firstPlaces,
+      })),
+      matrix: rename(
+        Object.fromEntries(
+          Object.entries(ranking.matrix).map(([ranker, places]) => [ranker, rename(places)])
+        )
+      ),
+      justifications: Object.fromEntries(
+        ranking.ballots.map((ballot) => [
+          name(ballot.ranker),
+          ballot.error ? { error: ballot.error } : rename(ballot.justifications),
+        ])
+      ),
+    };
+  }
+
+  /**
+   * Build a vote's tally, winner and the dissenting elders' rationales
+   */
+  buildVote(tally: VoteTally, responses: ModelResponse[]): string {
+    const name = this.seatNamer(responses);
+    const width = Math.max(...tally.choices.map((choice) => choice.length));
+
+    let output = chalk.bold.cyan('\n🗳  Vote Tally\n');
+    output += chalk.gray('─'.repeat(60)) + '\n';
+    tally.choices.forEach((choice) => {
+      const { votes, weight } = tally.counts[choice];
+      output += `${choice.padEnd(width)}  ${chalk.cyan('█'.repeat(votes))} ${votes} ${votes === 1 ? 'vote' : 'votes'} (weight ${weight.toFixed(2)})\n`;
+    });
+
+    const failed = responses.filter((r) => !r.vote);
+    if (failed.length > 0) {
+      output += chalk.yellow(
+        `\n${failed.length === 1 ? '1 elder' : `${failed.length} elders`} did not vote\n`
+      );
+    }
+
+    if (!tally.winner) {
+      return output + chalk.red('\n❌ Error: No elder cast a vote\n');
+    }
+    const cast = responses.length - failed.length;
+    output += chalk.bold.green(
+      `\n✅ Winner: ${tally.winner} - ${tally.counts[tally.winner].votes} of ${cast} votes (${Math.round(tally.agreement * 100)}% agreement)\n`
+    );
+    if (tally.weightedWinner !== tally.winner) {
+      output += chalk.yellow(`Confidence-weighted winner: ${tally.weightedWinner}\n`);
+    }
+
+    if (tally.dissent.length > 0) {
+      output += chalk.bold('\nDissent:\n');
+      tally.dissent.forEach(({ model, choice, rationale }) => {
+        output += `${chalk.cyan(name(model))} voted ${chalk.bold(choice)}: ${rationale}\n`;
+      });
+    }
+
+    return output;
+  }
+
+  /**
+   * Build vote JSON: the winners, tally, every ballot and the dissent
+   */
+  buildVoteJSON(tally: VoteTally, responses: ModelResponse[]): Record<string, unknown> {
+    const name = this.seatNamer(responses);
+
+    return {
+      winner: tally.winner ?? null,
+      weightedWinner: tally.weightedWinner ?? null,
+      agreement: tally.agreement,
+      tally: tally.counts,
+      votes: responses.map((r) =>
+        r.vote
+          ? { elder: name(r.model), ...r.vote, rationale: r.content }
+          : { elder: name(r.model), error: r.error || r.status }
+      ),
+      dissent: tally.dissent.map(({ model, ...dissent }) => ({ elder: name(model), ...dissent })),
+    };
+  }
+
+  /**
+   * Render a council's answer the way it was asked for: a vote's tally, the
+   * ranking, the synthesis or verdict when `single`, or else the final round
+   * followed by any verdict. Undefined when there is no summary to show.
+   */
+  buildConsensus(result: ConsensusResponse, single = false): string | undefined {
+    const json = this.options.format === 'json';
+    const finalRound = result.rounds[result.rounds.length - 1];
+
+    if (result.vote) {
+      return json
+        ? JSON.stringify(this.buildVoteJSON(result.vote, finalRound), null, 2)
+        : this.buildVote(result.vote, finalRound);
+    }
+    if (result.ranking) {
+      return json
+        ? JSON.stringify(this.buildRankingJSON(result.ranking, finalRound), null, 2)
+        : this.buildRanking(result.ranking, finalRound);
+    }
+    if (!single) {
+      return this.format(
+        [...finalRound, ...(result.verdict ? [result.verdict] : [])],
+        result.rounds.length
+      ) as string;
+    }
+    const summary = result.synthesis || result.verdict;
+    return summary ? (this.format([summary], 1) as string) : undefined;
+  }
+
+  /**
+   * Name seats by model ID or by elder name in seat order
+   */
+  private seatNamer(responses: ModelResponse[]): (model: string) => string {
+    const { showModels, elderNames } = this.options;
+    return (model) =>
+      showModels
+        ? model
+        : elderNames![
+            Math.max(
+              0,
+              responses.findIndex((r) => r.model === model)
+            ) % elderNames!.length
+          ];
+  }
+
   /**
    * Format responses based on options
    */
@@ -154,6 +395,7 @@ export class ResponseBuilder {
               answer: responses.content || null,
               error: responses.error || null,
               ...(responses.citations ? { citations: responses.citations } : {}),
+              ...(responses.structured ? { structured: responses.structured } : {}),
               ...(this.options.showMeta && responses.meta ? { meta: responses.meta } : {}),
             },
             null,
@@ -0,0 +1,66 @@
+import { mkdtempSync, readdirSync, rmSync, utimesSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { ModelResponse } from './council-client.js';
+import { ResponseCache } from './response-cache.js';
+
+const answer = (content: string): ModelResponse => ({
+  model: 'openai/gpt-4o',
+  status: 'success',
+  content,
+});
+
+describe('ResponseCache', () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = mkdtempSync(path.join(tmpdir(), 'coe-responses-'));
+    vi.stubEnv('COE_CACHE_DIR', cacheDir);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should key requests by their content and expire answers after the TTL', async () => {
+    const cache = new ResponseCache({ ttlMs: 1000 });
+    const key = cache.key({ model: 'a', messages: ['hi'] });
+    expect(cache.key({ model: 'a', messages: ['hi'] })).toBe(key);
+    expect(cache.key({ model: 'a', messages: ['hello'] })).not.toBe(key);
+
+    await cache.set(key, answer('cached'));
+    expect((await cache.get(key))?.content).toBe('cached');
+
+    vi.useFakeTimers({ now: Date.now() + 2000, toFake: ['Date'] });
+    expect(await cache.get(key)).toBeUndefined();
+  });
+
+  it('should evict the least recently used answers beyond the size cap', async () => {
+    const cache = new ResponseCache({ maxBytes: 250 });
+    await cache.set('first', answer('x'.repeat(100)));
+    const minuteAgo = new Date(Date.now() - 60_000);
+    utimesSync(path.join(cacheDir, 'responses', 'first.json'), minuteAgo, minuteAgo);
+    await cache.set('second', answer('y'.repeat(100)));
+
+    expect(readdirSync(path.join(cacheDir, 'responses'))).toEqual(['second.json']);
+    expect(await cache.get('first')).toBeUndefined();
+  });
+
+  it('should only scan the cache directory when it outgrows its cap', async () => {
+    const cache = new ResponseCache({ maxBytes: 1000 });
+    await cache.set('first', answer('x'));
+    const scan = vi.spyOn(cache as unknown as { files: () => Promise<unknown[]> }, 'files');
+
+    await cache.set('second', answer('y'));
+    await cache.set('second', answer('z'));
+    expect(scan).not.toHaveBeenCalled();
+
+    await cache.set('third', answer('w'.repeat(1000)));
+    expect(scan).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,127 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { getCacheDir } from './config.js';
+import { ModelResponse } from './council-client.js';
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_BYTES = 100 * 1024 * 1024;
+// A full cache is evicted down to this share of its cap, so writes don't rescan it each time
+const EVICTION_TARGET = 0.9;
+
+/**
+ * How a query uses the response cache: `use` answers from it when it can,
+ * `refresh` always asks the model and replaces the cached answer, and `off`
+ * bypasses it entirely
+ */
+export type CacheMode = 'use' | 'refresh' | 'off';
+
+export interface ResponseCacheOptions {
+  /** Age after which a cached answer is no longer used */
+  ttlMs?: number;
+  /** Total size of the cache; the least recently used answers are evicted beyond it */
+  maxBytes?: number;
+}
+
+interface CacheEntry {
+  cachedAt: number;
+  response: ModelResponse;
+}
+
+/**
+ * Successful model answers on disk, addressed by a hash of everything that
+ * shaped them, so an identical query is answered without calling the model
+ */
+export class ResponseCache {
+  private ttlMs: number;
+  private maxBytes: number;
+  // Bytes on disk, measured on the first write and counted from then on
+  private size?: number;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  }
+
+  private get directory(): string {
+    return path.join(getCacheDir(), 'responses');
+  }
+
+  /**
+   * Content address of a request
+   */
+  key(request: unknown): string {
+    return createHash('sha256').update(JSON.stringify(request)).digest('hex');
+  }
+
+  async get(key: string): Promise<ModelResponse | undefined> {
+    const filePath = path.join(this.directory, `${key}.json`);
+    try {
+      const entry = JSON.parse(await fs.readFile(filePath, 'utf-8')) as CacheEntry;
+      if (Date.now() - entry.cachedAt > this.ttlMs) {
+        return undefined;
+      }
+      // Reading an answer keeps it from eviction
+      const now = new Date();
+      await fs.utimes(filePath, now, now);
+      return entry.response;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Store an answer. Once the cache outgrows its cap, expired and least
+   * recently used answers are evicted. A cache that cannot be written is skipped.
+   */
+  async set(key: string, response: ModelResponse): Promise<void> {
+    const entry = JSON.stringify({ cachedAt: Date.now(), response } satisfies CacheEntry);
+    const filePath = path.join(this.directory, `${key}.json`);
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      const replaced = await fs.stat(filePath).then(
+        ({ size }) => size,
+        () => 0
+      );
+      await fs.writeFile(filePath, entry);
+
+      this.size =
+        this.size === undefined
+          ? (await this.files()).reduce((sum, file) => sum + file.size, 0)
+          : this.size + Buffer.byteLength(entry) - replaced;
+      if (this.size > this.maxBytes) {
+        await this.evict();
+      }
+    } catch {
+      // Answers are still returned uncached
+    }
+  }
+
+  private async files(): Promise<{ filePath: string; size: number; mtimeMs: number }[]> {
+    return Promise.all(
+      (await fs.readdir(this.directory)).map(async (name) => {
+        const filePath = path.join(this.directory, name);
+        const { size, mtimeMs } = await fs.stat(filePath);
+        return { filePath, size, mtimeMs };
+      })
+    );
+  }
+
+  /**
+   * Remove expired answers, then the least recently used until the cache is
+   * back under its eviction target. The scan also corrects the running size
+   * for answers other processes wrote or removed.
+   */
+  private async evict(): Promise<void> {
+    const files = await this.files();
+    const expiredBefore = Date.now() - this.ttlMs;
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+    for (const file of files.sort((a, b) => a.mtimeMs - b.mtimeMs)) {
+      if (file.mtimeMs >= expiredBefore && total <= this.maxBytes * EVICTION_TARGET) break;
+      await fs.rm(file.filePath, { force: true });
+      total -= file.size;
+    }
+    this.size = total;
+  }
+}
@@ -0,0 +1,266 @@
+import { APICallError } from 'ai';
+
+/**
+ * Broad causes of a failed model call, used to decide whether a retry can help
+ */
+export type ErrorKind =
+  | 'auth'
+  | 'invalidModel'
+  | 'rateLimited'
+  | 'overloaded'
+  | 'network'
+  | 'contentFiltered'
+  | 'unknown';
+
+export interface ClassifiedError {
+  kind: ErrorKind;
+  retryable: boolean;
+  statusCode?: number;
+  /** Delay requested by the server through Retry-After style headers */
+  retryAfterMs?: number;
+}
+
+export interface RetryPolicy {
+  /** Retries after the first attempt */
+  retries: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoff: number;
+  /** Fraction of each delay added at random so parallel seats don't retry in lockstep */
+  jitter: number;
+  /** Consecutive failed queries after which a model is skipped (0 disables) */
+  circuitBreakerThreshold: number;
+  /** How long a model is skipped before a single query may try it again */
+  circuitBreakerCooldownMs: number;
+}
+
+export interface RetryAttempt {
+  attempt: number;
+  kind: ErrorKind;
+  error: string;
+  statusCode?: number;
+  /** Wait before the next attempt; absent on the final, non-retried failure */
+  delayMs?: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  backoff: 2,
+  jitter: 0.2,
+  circuitBreakerThreshold: 3,
+  circuitBreakerCooldownMs: 60000,
+};
+
+const RETRYABLE_KINDS: ErrorKind[] = ['rateLimited', 'overloaded', 'network'];
+// Failures that say the model, not the request, is at fault
+const CIRCUIT_KINDS: ErrorKind[] = [...RETRYABLE_KINDS, 'auth', 'invalidModel'];
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN'];
+
+/**
+ * Read a server-requested delay from `retry-after-ms`, `retry-after` (seconds
+ * or HTTP date) or `x-ratelimit-reset` (epoch seconds or milliseconds)
+ */
+export function parseRetryAfter(
+  headers: Record<string, string> | undefined,
+  now: number = Date.now()
+): number | undefined {
+  if (!headers) return undefined;
+  const header = (name: string) =>
+    Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1];
+
+  const retryAfterMs = Number(header('retry-after-ms'));
+  if (header('retry-after-ms') && Number.isFinite(retryAfterMs)) {
+    return Math.max(0, retryAfterMs);
+  }
+
+  const retryAfter = header('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+
+  const reset = Number(header('x-ratelimit-reset'));
+  if (header('x-ratelimit-reset') && Number.isFinite(reset)) {
+    const resetMs = reset > 1e12 ? reset : reset * 1000;
+    return Math.max(0, resetMs - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Classify an error thrown by a provider call
+ */
+export function classifyError(error: unknown): ClassifiedError {
+  const message = (error instanceof Error ? error.message : String(error)).toLowerCase();
+  const classified = (kind: ErrorKind, extra: Partial<ClassifiedError> = {}): ClassifiedError => ({
+    kind,
+    retryable: RETRYABLE_KINDS.includes(kind),
+    ...extra,
+  });
+
+  if (APICallError.isInstance(error)) {
+    const statusCode = error.statusCode;
+    const body = (error.responseBody || '').toLowerCase();
+    const text = `${message} ${body}`;
+
+    if (statusCode === 429) {
+      return classified('rateLimited', {
+        statusCode,
+        retryAfterMs: parseRetryAfter(error.responseHeaders),
+      });
+    }
+    if (/moderation|flagged|content.?filter|safety/.test(text)) {
+      return classified('contentFiltered', { statusCode });
+    }
+    if (statusCode === 401 || statusCode === 403) {
+      return classified('auth', { statusCode });
+    }
+    if (
+      statusCode === 404 ||
+      /not a valid model|model.*not (found|exist)|no endpoints/.test(text)
+    ) {
+      return classified('invalidModel', { statusCode });
+    }
+    if (statusCode === 408) {
+      return classified('network', { statusCode });
+    }
+    if (statusCode !== undefined && statusCode >= 500) {
+      return classified('overloaded', {
+        statusCode,
+        retryAfterMs: parseRetryAfter(error.responseHeaders),
+      });
+    }
+    return classified('unknown', { statusCode });
+  }
+
+  const code = (error as { cause?: { code?: string }; code?: string })?.cause?.code;
+  if (
+    (code && NETWORK_ERROR_CODES.includes(code)) ||
+    /fetch failed|network|socket hang up|econnreset|econnrefused/.test(message)
+  ) {
+    return classified('network');
+  }
+  if (/content.?filter|moderation|flagged/.test(message)) {
+    return classified('contentFiltered');
+  }
+
+  return classified('unknown');
+}
+
+function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject((signal?.reason as Error | undefined) ?? new Error('Aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `fn` under a retry policy. Non-retryable errors fail immediately; rate
+ * limits wait for the server's Retry-After (giving up if it exceeds
+ * `maxDelayMs`), other retryable errors back off exponentially. Every failed
+ * attempt is appended to `history`.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  policy: RetryPolicy,
+  options: {
+    signal?: AbortSignal;
+    history?: RetryAttempt[];
+    /** Return false to stop retrying, e.g. once a stream has emitted output */
+    canRetry?: () => boolean;
+  } = {}
+): Promise<T> {
+  const { signal, history = [], canRetry = () => true } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      // Cancelled requests must not be retried
+      if (signal?.aborted) {
+        throw error;
+      }
+
+      const classified = classifyError(error);
+      const record: RetryAttempt = {
+        attempt,
+        kind: classified.kind,
+        error: error instanceof Error ? error.message : String(error),
+        ...(classified.statusCode !== undefined ? { statusCode: classified.statusCode } : {}),
+      };
+      history.push(record);
+
+      const backoffMs = policy.initialDelayMs * Math.pow(policy.backoff, attempt - 1);
+      const baseDelay = classified.retryAfterMs ?? Math.min(backoffMs, policy.maxDelayMs);
+      if (
+        !classified.retryable ||
+        attempt > policy.retries ||
+        baseDelay > policy.maxDelayMs ||
+        !canRetry()
+      ) {
+        throw error;
+      }
+
+      record.delayMs = Math.round(baseDelay * (1 + policy.jitter * Math.random()));
+      await abortableDelay(record.delayMs, signal);
+    }
+  }
+}
+
+/**
+ * Tracks consecutive failed queries per model for the session, i.e. as long
+ * as the client lives: one `coe` run, one chat or the MCP server. A model
+ * that reaches the threshold opens its circuit and is skipped. After the
+ * cooldown the circuit is half-open: one query goes through while the
+ * cooldown restarts, and its success closes the circuit. Failures caused by the request itself,
+ * such as filtered content, are not held against the model.
+ */
+export class CircuitBreaker {
+  private circuits = new Map<string, { failures: number; openedAt?: number }>();
+
+  isOpen(model: string, policy: RetryPolicy, now: number = Date.now()): boolean {
+    const circuit = this.circuits.get(model);
+    if (policy.circuitBreakerThreshold <= 0 || circuit?.openedAt === undefined) {
+      return false;
+    }
+    if (now - circuit.openedAt < policy.circuitBreakerCooldownMs) {
+      return true;
+    }
+    circuit.openedAt = now;
+    return false;
+  }
+
+  recordSuccess(model: string): void {
+    this.circuits.delete(model);
+  }
+
+  recordFailure(
+    model: string,
+    kind: ErrorKind,
+    policy: RetryPolicy,
+    now: number = Date.now()
+  ): void {
+    if (!CIRCUIT_KINDS.includes(kind)) {
+      return;
+    }
+    const circuit = this.circuits.get(model) || { failures: 0 };
+    circuit.failures++;
+    if (circuit.failures >= policy.circuitBreakerThreshold) {
+      circuit.openedAt = now;
+    }
+    this.circuits.set(model, circuit);
+  }
+}
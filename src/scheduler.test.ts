@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+
+import { RequestScheduler, SchedulerSlot } from './scheduler.js';
+
+describe('RequestScheduler', () => {
+  it('should hold requests beyond the concurrency limit until a slot is released', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+    const first = await scheduler.acquire('openai/gpt-4o');
+
+    let secondGranted = false;
+    const second = scheduler.acquire('openai/gpt-4o').then((slot) => {
+      secondGranted = true;
+      return slot;
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(secondGranted).toBe(false);
+
+    first.release();
+    const slot = await second;
+    expect(slot.waitMs).toBeGreaterThanOrEqual(15);
+    slot.release();
+  });
+
+  it('should apply pattern limits only to matching models', async () => {
+    const scheduler = new RequestScheduler({ limits: { 'anthropic/*': { maxConcurrency: 1 } } });
+    const claude = await scheduler.acquire('anthropic/claude-3.5-sonnet');
+
+    let claudeGranted = false;
+    void scheduler.acquire('anthropic/claude-3-haiku').then(() => (claudeGranted = true));
+    const gpt = await scheduler.acquire('openai/gpt-4o');
+
+    expect(gpt.waitMs).toBeLessThan(15);
+    expect(claudeGranted).toBe(false);
+    claude.release();
+  });
+
+  it('should serve flows round-robin so a batch cannot starve other queries', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+    const blocker = await scheduler.acquire('model');
+    const order: string[] = [];
+
+    const track = (label: string, flow: string) =>
+      scheduler.acquire('model', flow).then((slot: SchedulerSlot) => {
+        order.push(label);
+        slot.release();
+      });
+
+    const pending = [
+      track('batch-1', 'batch'),
+      track('batch-2', 'batch'),
+      track('batch-3', 'batch'),
+      track('interactive', 'interactive'),
+    ];
+    blocker.release();
+    await Promise.all(pending);
+
+    expect(order).toEqual(['batch-1', 'interactive', 'batch-2', 'batch-3']);
+  });
+
+  it('should drop queued requests whose signal aborts', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+    const blocker = await scheduler.acquire('model');
+    const controller = new AbortController();
+
+    const queued = scheduler.acquire('model', undefined, controller.signal);
+    controller.abort(new Error('cancelled'));
+
+    await expect(queued).rejects.toThrow('cancelled');
+    blocker.release();
+  });
+});
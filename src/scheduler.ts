@@ -0,0 +1,212 @@
+export interface RateLimit {
+  maxConcurrency?: number;
+  requestsPerMinute?: number;
+}
+
+export interface SchedulerOptions extends RateLimit {
+  /** Limits per model pattern, e.g. `anthropic/*` or `local:*` */
+  limits?: Record<string, RateLimit>;
+}
+
+export interface SchedulerSlot {
+  /** Milliseconds spent waiting in the queue */
+  waitMs: number;
+  release: () => void;
+}
+
+/**
+ * Requests-per-minute limiter holding up to a minute's worth of tokens
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private perMinute: number) {
+    this.tokens = perMinute;
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(
+      this.perMinute,
+      this.tokens + ((now - this.updatedAt) * this.perMinute) / 60000
+    );
+    this.updatedAt = now;
+  }
+
+  /** Milliseconds until a token is available (0 when one is available now) */
+  waitTime(now: number): number {
+    this.refill(now);
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) * 60000) / this.perMinute);
+  }
+
+  take(): void {
+    this.tokens -= 1;
+  }
+}
+
+class Limiter {
+  active = 0;
+  private bucket?: TokenBucket;
+
+  constructor(
+    private limit: RateLimit,
+    readonly pattern?: RegExp
+  ) {
+    if (limit.requestsPerMinute) {
+      this.bucket = new TokenBucket(limit.requestsPerMinute);
+    }
+  }
+
+  /** Milliseconds until this limiter admits a request, or Infinity while at max concurrency */
+  waitTime(now: number): number {
+    if (this.limit.maxConcurrency && this.active >= this.limit.maxConcurrency) {
+      return Infinity;
+    }
+    return this.bucket?.waitTime(now) ?? 0;
+  }
+
+  acquire(): void {
+    this.active++;
+    this.bucket?.take();
+  }
+}
+
+interface Waiter {
+  limiters: Limiter[];
+  enqueuedAt: number;
+  grant: () => void;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Admits model requests under global and per-pattern concurrency and
+ * requests-per-minute limits. Waiting requests are grouped into flows (one per
+ * council query by default) served round-robin, so a large batch cannot starve
+ * an interactive query.
+ */
+export class RequestScheduler {
+  private global: Limiter;
+  private patterns: Limiter[];
+  private flows = new Map<string, Waiter[]>();
+  private flowCounter = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: SchedulerOptions = {}) {
+    this.global = new Limiter(options);
+    this.patterns = Object.entries(options.limits || {}).map(
+      ([pattern, limit]) => new Limiter(limit, patternToRegExp(pattern))
+    );
+  }
+
+  /**
+   * Name a new flow for grouping the requests of one query
+   */
+  createFlow(): string {
+    return `flow-${++this.flowCounter}`;
+  }
+
+  /**
+   * Wait for a slot to run a request for `modelId`. Requests without a flow
+   * form their own.
+   */
+  acquire(
+    modelId: string,
+    flow: string = this.createFlow(),
+    signal?: AbortSignal
+  ): Promise<SchedulerSlot> {
+    if (signal?.aborted) {
+      return Promise.reject((signal.reason as Error | undefined) ?? new Error('Aborted'));
+    }
+
+    const limiters = [this.global, ...this.patterns.filter((l) => l.pattern!.test(modelId))];
+
+    return new Promise<SchedulerSlot>((resolve, reject) => {
+      const onAbort = () => {
+        this.remove(flow, waiter);
+        reject((signal?.reason as Error | undefined) ?? new Error('Aborted'));
+      };
+
+      const waiter: Waiter = {
+        limiters,
+        enqueuedAt: Date.now(),
+        grant: () => {
+          signal?.removeEventListener('abort', onAbort);
+          limiters.forEach((limiter) => limiter.acquire());
+
+          let released = false;
+          resolve({
+            waitMs: Date.now() - waiter.enqueuedAt,
+            release: () => {
+              if (released) return;
+              released = true;
+              limiters.forEach((limiter) => limiter.active--);
+              this.pump();
+            },
+          });
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      const queue = this.flows.get(flow) || [];
+      queue.push(waiter);
+      this.flows.set(flow, queue);
+      this.pump();
+    });
+  }
+
+  private remove(flow: string, waiter: Waiter): void {
+    const queue = this.flows.get(flow);
+    if (!queue) return;
+
+    const index = queue.indexOf(waiter);
+    if (index >= 0) queue.splice(index, 1);
+    if (queue.length === 0) this.flows.delete(flow);
+    this.pump();
+  }
+
+  /**
+   * Grant slots round-robin across flows until limits are reached, then
+   * schedule a retry for when the next rate-limit token becomes available
+   */
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    let nextWait = Infinity;
+    let granted = true;
+    while (granted) {
+      granted = false;
+      const now = Date.now();
+
+      for (const [flow, queue] of [...this.flows]) {
+        // Take the flow's oldest request its limits admit, so a request held back by one
+        // pattern's limit doesn't block the flow's requests to other models
+        const waits = queue.map((waiter) =>
+          Math.max(...waiter.limiters.map((limiter) => limiter.waitTime(now)))
+        );
+        const index = waits.indexOf(0);
+        if (index < 0) {
+          nextWait = Math.min(nextWait, ...waits);
+          continue;
+        }
+
+        const [waiter] = queue.splice(index, 1);
+        // Move the flow to the back so other flows are served next
+        this.flows.delete(flow);
+        if (queue.length > 0) this.flows.set(flow, queue);
+        waiter.grant();
+        granted = true;
+      }
+    }
+
+    if (this.flows.size > 0 && Number.isFinite(nextWait)) {
+      this.timer = setTimeout(() => this.pump(), nextWait);
+    }
+  }
+}
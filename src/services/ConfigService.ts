@@ -2,8 +2,16 @@ import 'reflect-metadata';
 import { injectable } from 'tsyringe';
 
 import { ConfigLoader } from '../config/ConfigLoader.js';
-import { Config } from '../config-schema.js';
+import {
+  CacheConfig,
+  Config,
+  HistoryConfig,
+  McpConfig,
+  ProviderConfig,
+  SchedulerConfig,
+} from '../config-schema.js';
 import { IConfigService } from '../interfaces.js';
+import { CouncilPrompt, resolvePrompts } from '../prompt-templates.js';
 import { CouncilConfig } from '../types.js';
 
 @injectable()
@@ -28,6 +36,8 @@ export class ConfigService implements IConfigService {
     if (councilName && coeConfig.councils?.[councilName]) {
       return {
         ...coeConfig.councils[councilName],
+        name: councilName,
+        personas: { ...coeConfig.personas, ...coeConfig.councils[councilName].personas },
         defaults: {
           ...coeConfig.councils[councilName].defaults,
         },
@@ -39,6 +49,8 @@ export class ConfigService implements IConfigService {
     if (defaultCouncilName && coeConfig.councils?.[defaultCouncilName]) {
       return {
         ...coeConfig.councils[defaultCouncilName],
+        name: defaultCouncilName,
+        personas: { ...coeConfig.personas, ...coeConfig.councils[defaultCouncilName].personas },
         defaults: {
           ...coeConfig.councils[defaultCouncilName].defaults,
         },
@@ -51,7 +63,16 @@ export class ConfigService implements IConfigService {
       system: coeConfig.system,
       synthesizer: coeConfig.synthesizer,
       rounds: coeConfig.rounds || 1,
+      mode: coeConfig.mode,
+      maxRounds: coeConfig.maxRounds,
+      convergenceThreshold: coeConfig.convergenceThreshold,
+      peerReview: coeConfig.peerReview,
+      personas: coeConfig.personas,
+      choices: coeConfig.choices,
       defaults: {},
+      retry: coeConfig.retry,
+      maxCostPerQuery: coeConfig.maxCostPerQuery,
+      maxCostPerDay: coeConfig.maxCostPerDay,
     };
   }
 
@@ -75,4 +96,31 @@ export class ConfigService implements IConfigService {
     }
     return Object.keys(this.config.coeConfig.councils || {});
   }
+
+  getProviders(): Record<string, ProviderConfig> {
+    if (!this.config) {
+      return {};
+    }
+    return this.config.coeConfig.providers || {};
+  }
+
+  getScheduler(): SchedulerConfig | undefined {
+    return this.config?.coeConfig.scheduler;
+  }
+
+  getHistory(): HistoryConfig | undefined {
+    return this.config?.coeConfig.history;
+  }
+
+  getCache(): CacheConfig | undefined {
+    return this.config?.coeConfig.cache;
+  }
+
+  getMcp(): McpConfig | undefined {
+    return this.config?.coeConfig.mcp;
+  }
+
+  getPrompts(): CouncilPrompt[] {
+    return resolvePrompts(this.config?.coeConfig.prompts);
+  }
 }
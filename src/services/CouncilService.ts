@@ -1,17 +1,37 @@
 import 'reflect-metadata';
-import chalk from 'chalk';
 import ora, { Ora } from 'ora';
 import { injectable, inject } from 'tsyringe';
 
-import { getModelId } from '../config.js';
+import {
+  BudgetGuard,
+  SpendLedger,
+  consensusMetadata,
+  estimateQueryCost,
+  spentOn,
+} from '../budget.js';
+import { collectCitations } from '../citations.js';
+import {
+  getModelFallbacks,
+  getModelId,
+  getSeatIds,
+  getSeatModel,
+  getSeatSystemPrompts,
+} from '../config.js';
+import { convergenceEnabled, hasConverged, maxRoundsFor } from '../convergence.js';
 import {
   CouncilClient,
   OpenRouterMessage,
   ModelResponse,
+  OpenRouterModel,
   QueryOptions,
 } from '../council-client.js';
+import { DebateSeat, assignDebateSeats } from '../debate.js';
 import { ICouncilService, IConfigService, IPricingService } from '../interfaces.js';
-import { CouncilConfig, ConsensusResponse } from '../types.js';
+import { PeerRanking } from '../ranking.js';
+import { ResponseCache } from '../response-cache.js';
+import { buildSynthesisMessages } from '../synthesis.js';
+import { CouncilConfig, ConsensusContext, ConsensusResponse, CouncilQueryHooks } from '../types.js';
+import { VoteTally, tallyVotes } from '../voting.js';
 
 @injectable()
 export class CouncilService implements ICouncilService {
@@ -28,113 +48,340 @@ export class CouncilService implements ICouncilService {
       if (!apiKey) {
         throw new Error('OpenRouter API key is required but not configured');
       }
-      this.client = new CouncilClient({ apiKey });
+      const cache = this.configService.getCache();
+      this.client = new CouncilClient({
+        apiKey,
+        providers: this.configService.getProviders(),
+        scheduler: this.configService.getScheduler(),
+        pricing: this.pricingService,
+        cache:
+          cache?.enabled === false
+            ? undefined
+            : new ResponseCache({
+                ttlMs: cache && cache.ttlHours * 60 * 60 * 1000,
+                maxBytes: cache && cache.maxSizeMB * 1024 * 1024,
+              }),
+      });
     }
     return this.client;
   }
 
-  async query(prompt: string, config: CouncilConfig): Promise<ModelResponse[]> {
-    const modelIds = config.models.map((m) => getModelId(m));
+  async query(
+    prompt: string,
+    config: CouncilConfig,
+    hooks: CouncilQueryHooks = {}
+  ): Promise<ModelResponse[]> {
+    const modelIds = getSeatIds(config.models);
+    const system = config.system || 'You are a helpful AI assistant.';
     const messages: OpenRouterMessage[] = [
-      { role: 'system', content: config.system || 'You are a helpful AI assistant.' },
+      { role: 'system', content: system },
       { role: 'user', content: prompt },
     ];
 
     const queryOptions: QueryOptions = {
-      temperature: config.defaults?.temperature || 0.7,
+      temperature: config.defaults?.temperature ?? 0.7,
       firstN: config.defaults?.firstN,
       webSearch: this.buildWebSearchConfig(config),
+      ...this.buildDeadlines(config),
+      onChunk: hooks.onChunk,
+      signal: hooks.signal,
+      retry: config.retry,
+      fallbacks: this.buildFallbacks(config),
+      systemPrompts: getSeatSystemPrompts(config.models, system, config.personas),
+      cache: config.defaults?.cache,
     };
 
-    const responses = await this.getClient().queryMultipleModels(modelIds, messages, queryOptions);
-
-    // Filter by time limit if specified
-    if (config.defaults?.timeLimit) {
-      const timeLimitMs = config.defaults.timeLimit * 1000;
-      return this.filterByTimeLimit(responses, timeLimitMs);
-    }
+    // A single round: no consensus rounds or synthesis to budget for
+    const budget = await this.startBudget(
+      prompt,
+      { ...config, rounds: 1, defaults: { ...config.defaults, single: false } },
+      hooks
+    );
+    const responses = await this.getClient().queryMultipleModels(
+      modelIds,
+      messages,
+      queryOptions,
+      hooks.onProgress
+    );
+    await budget.record(spentOn(responses));
 
     return responses;
   }
 
-  async queryWithConsensus(prompt: string, config: CouncilConfig): Promise<ConsensusResponse> {
-    const rounds = config.rounds || 1;
-    const modelIds = config.models.map((m) => getModelId(m));
+  async queryWithConsensus(
+    prompt: string,
+    config: CouncilConfig,
+    hooks: CouncilQueryHooks = {},
+    { history, earlierRounds = [] }: ConsensusContext = {}
+  ): Promise<ConsensusResponse> {
+    const rounds = maxRoundsFor(config);
+    const modelIds = getSeatIds(config.models);
+    const choices = config.choices;
+    if (choices && new Set(choices).size < 2) {
+      throw new Error('A vote needs at least two distinct choices');
+    }
+    if (choices && config.mode === 'debate') {
+      throw new Error('A council cannot debate and vote at once; remove "choices" or "mode"');
+    }
+    if (earlierRounds.length > 0 && (choices || config.mode === 'debate')) {
+      throw new Error('Only consensus discussions can take more rounds');
+    }
+    if (earlierRounds.length > 0 && earlierRounds[0].length !== modelIds.length) {
+      throw new Error('The earlier rounds were held by a different council');
+    }
+    const seats = config.mode === 'debate' ? assignDebateSeats(config.models) : undefined;
+    const converging = !seats && convergenceEnabled(config);
 
     const queryOptions: QueryOptions = {
-      temperature: config.defaults?.temperature || 0.7,
+      temperature: config.defaults?.temperature ?? 0.7,
       firstN: config.defaults?.firstN,
       webSearch: this.buildWebSearchConfig(config),
+      ...this.buildDeadlines(config),
+      onChunk: hooks.onChunk,
+      signal: hooks.signal,
+      retry: config.retry,
+      fallbacks: this.buildFallbacks(config),
+      // Voters' revisions show in their ballots
+      declareRevisions: converging && !choices,
+      peerReview: config.peerReview,
+      systemPrompts: getSeatSystemPrompts(config.models, config.system || '', config.personas),
+      histories: history,
+      earlierRounds,
+      cache: config.defaults?.cache,
+    };
+
+    // Earlier turns are sent again, so the longest history counts towards the estimate
+    const context = (history || [])
+      .map((messages) => messages.map((m) => m.content).join('\n\n'))
+      .reduce((longest, text) => (text.length > longest.length ? text : longest), '');
+    // Only the rounds still to come are budgeted and recorded
+    const budget = await this.startBudget(
+      context ? `${context}\n\n${prompt}` : prompt,
+      earlierRounds.length > 0
+        ? { ...config, rounds: rounds - earlierRounds.length, maxRounds: undefined }
+        : config,
+      hooks,
+      seats
+    );
+    const spentSoFar = (heldRounds: ModelResponse[][]) =>
+      spentOn(heldRounds.slice(earlierRounds.length).flat());
+    const outcome: Pick<ConsensusResponse, 'stopped' | 'convergedAtRound'> = {};
+    queryOptions.continueRound = (round, previousRounds) => {
+      if (hooks.signal?.aborted) {
+        outcome.stopped = 'cancelled';
+        return false;
+      }
+      if (
+        converging &&
+        round > 2 &&
+        hasConverged(
+          previousRounds[round - 3],
+          previousRounds[round - 2],
+          config.convergenceThreshold
+        )
+      ) {
+        outcome.convergedAtRound = round - 1;
+        return false;
+      }
+      if (budget.allows(spentSoFar(previousRounds))) return true;
+      outcome.stopped = 'budget';
+      return false;
     };
 
-    // Progress tracking
+    // Progress tracking (callers rendering their own progress replace the spinners)
     const progressBars = new Map<string, Ora>();
-    modelIds.forEach((model) => {
-      progressBars.set(model, ora(`${model}`).start());
-    });
+    if (!hooks.onProgress) {
+      modelIds.forEach((model) => {
+        progressBars.set(model, ora(`${model}`).start());
+      });
+    }
 
     const onProgress = (round: number, model: string, status: string) => {
+      hooks.onProgress?.(round, model, status);
+      // A seat sitting out keeps the spinner its last answer left
+      if (status === 'skipped') return;
+
       const spinner = progressBars.get(model);
       if (spinner) {
         const statusEmoji = status === 'complete' ? '✓' : status === 'querying' ? '🔄' : '⏳';
         spinner.text = `Round ${round}/${rounds} - ${model} ${statusEmoji}`;
         if (status === 'complete' && round === rounds) {
           spinner.succeed();
+        } else if (status === 'cancelled') {
+          spinner.info(`Round ${round}/${rounds} - ${model} cancelled`);
+        } else if (status === 'timedOut') {
+          spinner.warn(`Round ${round}/${rounds} - ${model} timed out`);
         }
       }
     };
 
-    const allRounds = await this.getClient().runConsensusRounds(
-      modelIds,
-      prompt,
-      config.system || '',
-      rounds,
-      queryOptions,
-      onProgress
+    const { rounds: allRounds, verdict } = seats
+      ? await this.getClient().runDebate(
+          seats,
+          prompt,
+          config.system || '',
+          rounds,
+          queryOptions,
+          onProgress
+        )
+      : {
+          rounds: choices
+            ? await this.getClient().runVote(
+                modelIds,
+                prompt,
+                config.system || '',
+                choices,
+                rounds,
+                queryOptions,
+                onProgress
+              )
+            : await this.getClient().runConsensusRounds(
+                modelIds,
+                prompt,
+                config.system || '',
+                rounds,
+                queryOptions,
+                onProgress
+              ),
+          verdict: undefined,
+        };
+    // Seats of rounds that never ran are still spinning
+    progressBars.forEach(
+      (spinner) =>
+        spinner.isSpinning && (outcome.convergedAtRound ? spinner.succeed() : spinner.stop())
     );
 
-    // Filter rounds by time limit if specified
-    let filteredRounds = allRounds;
-    if (config.defaults?.timeLimit) {
-      const timeLimitMs = config.defaults.timeLimit * 1000;
-      filteredRounds = allRounds.map((round) => this.filterByTimeLimit(round, timeLimitMs));
-
-      // Log filtered models
-      const filteredModels = new Set<string>();
-      allRounds.forEach((round, idx) => {
-        const filtered = round.filter(
-          (r) => !filteredRounds[idx].some((fr) => fr.model === r.model)
-        );
-        filtered.forEach((r) => filteredModels.add(r.model));
-      });
+    // A vote's tally is its answer, so it is neither ranked nor synthesized
+    const vote: VoteTally | undefined = choices
+      ? tallyVotes(choices, allRounds[allRounds.length - 1])
+      : undefined;
 
-      if (filteredModels.size > 0) {
-        console.log(
-          chalk.yellow(
-            `\nFiltered out slow models (>${config.defaults.timeLimit}s): ${[...filteredModels].join(', ')}\n`
-          )
-        );
+    // Steps after the rounds run only while the query is neither cancelled nor over budget
+    const mayContinue = () => {
+      if (hooks.signal?.aborted) {
+        outcome.stopped = 'cancelled';
+        return false;
       }
+      if (budget.allows(spentSoFar(allRounds))) return true;
+      outcome.stopped = 'budget';
+      return false;
+    };
+
+    // Rank the final answers if requested; the winner then stands in for a synthesis
+    let ranking: PeerRanking | undefined;
+    if (config.defaults?.rank && !seats && !vote && mayContinue()) {
+      const spinner = hooks.onProgress
+        ? undefined
+        : ora("Elders are ranking each other's answers...").start();
+      hooks.onStage?.('ranking', 'started');
+      ranking = await this.getClient().rankResponses(
+        prompt,
+        config.system || '',
+        allRounds[allRounds.length - 1],
+        { ...queryOptions, onChunk: undefined }
+      );
+      hooks.onStage?.('ranking', 'complete');
+      spinner?.stop();
     }
 
-    // Synthesize if needed
+    // Synthesize if needed; a debate's verdict already is its single answer
     let synthesis: ModelResponse | undefined;
-    if (config.defaults?.single) {
-      synthesis = await this.synthesizeResponses(prompt, filteredRounds, config);
+    if (config.defaults?.single && !seats && !ranking && !vote && mayContinue()) {
+      hooks.onStage?.('synthesis', 'started');
+      synthesis = await this.synthesizeResponses(prompt, allRounds, config, hooks);
+      hooks.onStage?.('synthesis', 'complete');
     }
+    await budget.record(
+      spentSoFar(allRounds) + spentOn([synthesis, verdict, ...(ranking?.ballots || [])])
+    );
 
-    return {
-      rounds: filteredRounds,
+    const citations = collectCitations(allRounds.flat());
+
+    const result: ConsensusResponse = {
+      rounds: allRounds,
       synthesis,
-      metadata: this.calculateMetadata(filteredRounds),
+      ...(verdict ? { verdict } : {}),
+      ...(ranking ? { ranking } : {}),
+      ...(vote ? { vote } : {}),
+      ...(citations.length > 0 ? { citations } : {}),
+      ...outcome,
     };
+    return { ...result, metadata: consensusMetadata(result) };
   }
 
   async getAvailableModels(): Promise<string[]> {
-    const models = await this.getClient().getAvailableModels();
+    const models = await this.getModelCatalog();
     return models.map((m) => m.id);
   }
 
+  getModelCatalog(): Promise<OpenRouterModel[]> {
+    return this.getClient().getAvailableModels();
+  }
+
+  /**
+   * Check the council's spending limits against a pre-flight estimate
+   */
+  private async startBudget(
+    prompt: string,
+    config: CouncilConfig,
+    hooks: CouncilQueryHooks,
+    seats?: DebateSeat[]
+  ): Promise<BudgetGuard> {
+    const budget = new BudgetGuard(
+      {
+        maxCostPerQuery: config.maxCostPerQuery,
+        maxCostPerDay: config.maxCostPerDay,
+      },
+      new SpendLedger(config.name)
+    );
+    if (config.maxCostPerQuery === undefined && config.maxCostPerDay === undefined) {
+      return budget;
+    }
+
+    await this.getClient().loadPricing();
+    const webSearch = this.buildWebSearchConfig(config);
+    // In a debate the judge reads the transcript the way a synthesizer would
+    const judge = seats?.find((seat) => seat.role === 'judge');
+    const estimate = estimateQueryCost(this.pricingService, {
+      prompt,
+      system: config.system,
+      modelIds: seats
+        ? seats.filter((seat) => seat !== judge).map((seat) => getSeatModel(seat.model))
+        : config.models.map((m) => getModelId(m)),
+      // Ranking has every elder read its peers' answers once more, like another round
+      rounds: maxRoundsFor(config) + (config.defaults?.rank && !seats && !config.choices ? 1 : 0),
+      synthesizer: judge
+        ? getSeatModel(judge.model)
+        : config.defaults?.single && !config.defaults.rank && !config.choices
+          ? getModelId(config.synthesizer || 'openai/gpt-4o-mini')
+          : undefined,
+      webResults: webSearch && 'max_results' in webSearch ? webSearch.max_results : undefined,
+    });
+    await budget.preflight(estimate, hooks.confirmBudget);
+
+    return budget;
+  }
+
+  private buildDeadlines(
+    config: CouncilConfig
+  ): Pick<QueryOptions, 'timeoutMs' | 'roundTimeoutMs'> {
+    return {
+      timeoutMs: config.defaults?.timeLimit ? config.defaults.timeLimit * 1000 : undefined,
+      roundTimeoutMs: config.defaults?.roundTimeLimit
+        ? config.defaults.roundTimeLimit * 1000
+        : undefined,
+    };
+  }
+
+  private buildFallbacks(config: CouncilConfig): Record<string, string[]> {
+    const seatIds = getSeatIds(config.models);
+    return Object.fromEntries(
+      config.models
+        .map((m, i) => [seatIds[i], getModelFallbacks(m)] as const)
+        .filter(([, fallbacks]) => fallbacks.length > 0)
+    );
+  }
+
   private buildWebSearchConfig(config: CouncilConfig) {
     const webEnabled = config.defaults?.web || false;
     if (!webEnabled) return undefined;
@@ -154,107 +401,41 @@ export class CouncilService implements ICouncilService {
   private async synthesizeResponses(
     originalPrompt: string,
     allRounds: ModelResponse[][],
-    config: CouncilConfig
+    config: CouncilConfig,
+    { onSynthesisChunk, signal }: CouncilQueryHooks
   ): Promise<ModelResponse> {
     const synthesizerModel = config.synthesizer || 'openai/gpt-4o-mini';
     const modelId = getModelId(synthesizerModel);
 
-    const finalResponses = allRounds[allRounds.length - 1];
-    const successfulResponses = finalResponses.filter((r) => !r.error && r.content);
-
-    if (successfulResponses.length === 0) {
+    const structured = config.defaults?.structured || false;
+    const messages = buildSynthesisMessages(originalPrompt, allRounds, structured);
+    if (!messages) {
       return {
         model: modelId,
         error: 'No successful responses to synthesize',
       };
     }
 
-    let synthesisPrompt = `You are tasked with providing a single, unified answer to a question based on a council discussion.
-
-Original Question: "${originalPrompt}"
-
-`;
-
-    if (allRounds.length > 1) {
-      synthesisPrompt += `Full Council Discussion (${allRounds.length} rounds):\n\n`;
-
-      allRounds.forEach((roundResponses, roundIndex) => {
-        synthesisPrompt += `=== Round ${roundIndex + 1} ===\n`;
-        roundResponses.forEach((response, modelIndex) => {
-          if (!response.error && response.content) {
-            synthesisPrompt += `\nElder ${modelIndex + 1}:\n${response.content}\n`;
-          }
-        });
-        synthesisPrompt += '\n';
-      });
-
-      synthesisPrompt += `\nBased on this full discussion, including how perspectives evolved across rounds, provide a comprehensive synthesis.`;
-    } else {
-      synthesisPrompt += `Expert Perspectives:\n`;
-      successfulResponses.forEach((r, i) => {
-        synthesisPrompt += `\nPerspective ${i + 1}:\n${r.content}\n`;
-      });
-      synthesisPrompt += `\nBased on these perspectives, provide a direct, comprehensive answer.`;
-    }
-
-    synthesisPrompt += `\n\nDo not mention the council, multiple perspectives, or synthesis process. Simply answer the question as if you are providing the definitive response.`;
-
-    const messages: OpenRouterMessage[] = [
-      {
-        role: 'system',
-        content:
-          'You are an expert synthesizer. Provide clear, direct answers based on the information given. Never mention the synthesis process or multiple sources.',
-      },
-      { role: 'user', content: synthesisPrompt },
-    ];
-
-    return this.getClient().queryModel(modelId, messages, {
-      temperature: config.defaults?.temperature || 0.7,
-    });
-  }
-
-  private calculateMetadata(allRounds: ModelResponse[][]) {
-    let totalCost = 0;
-    let totalTokens = 0;
-    let totalLatency = 0;
-    let responseCount = 0;
-
-    allRounds.forEach((round) => {
-      round.forEach((response) => {
-        if (response.meta) {
-          // Use pricing service if estimated cost is not provided
-          if (response.meta.estimatedCost) {
-            totalCost += response.meta.estimatedCost;
-          } else if (response.meta.totalTokens) {
-            const cost = this.pricingService.calculate(response.model, {
-              totalTokens: response.meta.totalTokens,
-            });
-            totalCost += cost;
-          }
-
-          totalTokens += response.meta.totalTokens || 0;
-          totalLatency += response.meta.latencyMs || 0;
-          responseCount++;
-        }
-      });
-    });
-
-    return {
-      totalCost,
-      totalTokens,
-      averageLatency: responseCount > 0 ? totalLatency / responseCount : 0,
-      modelCount: allRounds[0]?.length || 0,
+    const options: QueryOptions = {
+      temperature: config.defaults?.temperature ?? 0.7,
+      onChunk: onSynthesisChunk,
+      signal,
+      retry: config.retry,
+      // Never cached, so re-running a query re-synthesizes the cached rounds
+      cache: 'off',
     };
-  }
-
-  private filterByTimeLimit(responses: ModelResponse[], timeLimitMs: number): ModelResponse[] {
-    return responses.filter((response) => {
-      // Keep responses that completed successfully within the time limit
-      if (!response.error && response.meta?.latencyMs) {
-        return response.meta.latencyMs <= timeLimitMs;
+    const synthesis = structured
+      ? await this.getClient().generateStructuredSynthesis(modelId, messages, options)
+      : await this.getClient().queryModel(modelId, messages, options);
+
+    // The synthesis rests on the elders' research, so it inherits their sources
+    if (!synthesis.error) {
+      const citations = collectCitations([...allRounds.flat(), synthesis]);
+      if (citations.length > 0) {
+        synthesis.citations = citations;
       }
-      // Keep error responses (they didn't timeout, they failed for other reasons)
-      return true;
-    });
+    }
+
+    return synthesis;
   }
 }
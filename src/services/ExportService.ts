@@ -3,7 +3,7 @@ import { injectable, inject, DependencyContainer } from 'tsyringe';
 
 import { ModelResponse } from '../council-client.js';
 import { ExportFactory } from '../infrastructure/exporters/ExportFactory.js';
-import { ConsensusResponse } from '../types.js';
+import { ChatTurn, ConsensusResponse } from '../types.js';
 
 export interface ExportOptions {
   format: string;
@@ -31,6 +31,16 @@ export class ExportService {
     await exporter.export(data, options.outputPath);
   }
 
+  async exportTranscript(turns: ChatTurn[], options: Omit<ExportOptions, 'prompt'>): Promise<void> {
+    const exporter = this.exportFactory.getExporter(options.format);
+
+    await exporter.exportTranscript(
+      turns,
+      { showModels: options.showModels, synthesized: options.synthesized },
+      options.outputPath
+    );
+  }
+
   getSupportedFormats(): string[] {
     return this.exportFactory.getSupportedFormats();
   }
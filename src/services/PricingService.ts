@@ -6,82 +6,218 @@ import { fileURLToPath } from 'url';
 
 import { injectable } from 'tsyringe';
 
+import { getCacheDir } from '../config.js';
+import { ModelUsage, OpenRouterModel } from '../council-client.js';
 import { IPricingService } from '../interfaces.js';
 
+/** Rate per 1k tokens, or separate prompt and completion rates per 1k tokens */
+type OverrideRate = number | { prompt: number; completion: number };
+
 interface PricingConfig {
   defaultRate: number;
-  models: Record<string, number>;
-  patterns: Record<string, number>;
+  models: Record<string, OverrideRate>;
+  patterns: Record<string, OverrideRate>;
+}
+
+/** USD per unit, as published in the OpenRouter model catalog */
+interface ModelPrice {
+  prompt: number;
+  completion: number;
+  request: number;
+  reasoning?: number;
+  webSearch: number;
 }
 
+interface CatalogCache {
+  fetchedAt: number;
+  models: Pick<OpenRouterModel, 'id' | 'pricing'>[];
+}
+
+// OpenRouter's web plugin bills $4 per 1000 results
+const WEB_PLUGIN_PRICE_PER_RESULT = 0.004;
+const CATALOG_TTL_MS = 24 * 60 * 60 * 1000;
+
+const MINIMAL_PRICING: PricingConfig = {
+  defaultRate: 0.002,
+  models: {},
+  patterns: {
+    free: 0,
+    turbo: 0.0005,
+    mini: 0.0002,
+  },
+};
+
+function parsePrice(value: string | undefined): number {
+  const price = Number(value);
+  return Number.isFinite(price) && price > 0 ? price : 0;
+}
+
+/**
+ * Prices model usage from the live OpenRouter catalog, cached on disk and
+ * refreshed daily. `pricing.json` rates only apply to models the catalog
+ * doesn't cover, e.g. when offline or for self-hosted providers.
+ */
 @injectable()
 export class PricingService implements IPricingService {
   private pricing: PricingConfig | null = null;
+  // Whether `pricing` is the user's own pricing.json rather than the bundled rates
+  private userPricing = false;
+  private catalog = new Map<string, ModelPrice>();
+  private catalogLoad: Promise<void> | null = null;
+  private localProviders = new Set<string>();
+
+  /**
+   * Load the model catalog from the disk cache, refreshing it with
+   * `fetchCatalog` when missing or stale. Safe to call repeatedly.
+   */
+  loadCatalog(fetchCatalog: () => Promise<OpenRouterModel[]>): Promise<void> {
+    if (!this.catalogLoad) {
+      this.catalogLoad = this.readCatalog(fetchCatalog).catch(() => {
+        // Pricing falls back to pricing.json
+      });
+    }
+    return this.catalogLoad;
+  }
 
-  async loadPricing(): Promise<void> {
-    if (this.pricing) return;
+  private async readCatalog(fetchCatalog: () => Promise<OpenRouterModel[]>): Promise<void> {
+    const cachePath = path.join(getCacheDir(), 'model-catalog.json');
+    let cached: CatalogCache | null = null;
 
     try {
-      // Try to load user-provided pricing first
-      const userPricingPath = path.join(process.cwd(), 'pricing.json');
-      const content = await fs.readFile(userPricingPath, 'utf-8');
-      this.pricing = JSON.parse(content) as PricingConfig;
+      cached = JSON.parse(await fs.readFile(cachePath, 'utf-8')) as CatalogCache;
     } catch {
-      // Fall back to default pricing
-      const __filename = fileURLToPath(import.meta.url);
-      const __dirname = path.dirname(__filename);
-      const defaultPricingPath = path.join(__dirname, '../config/pricing.json');
+      // No usable cache yet
+    }
 
+    if (!cached || Date.now() - cached.fetchedAt > CATALOG_TTL_MS) {
       try {
-        const content = await fs.readFile(defaultPricingPath, 'utf-8');
-        this.pricing = JSON.parse(content) as PricingConfig;
+        const models = (await fetchCatalog()).filter((m) => m.pricing);
+        if (models.length > 0) {
+          cached = {
+            fetchedAt: Date.now(),
+            models: models.map(({ id, pricing }) => ({ id, pricing })),
+          };
+          await fs.mkdir(path.dirname(cachePath), { recursive: true });
+          await fs.writeFile(cachePath, JSON.stringify(cached));
+        }
       } catch {
-        // If all else fails, use minimal defaults
-        this.pricing = {
-          defaultRate: 0.002,
-          models: {},
-          patterns: {
-            free: 0,
-            turbo: 0.0005,
-            mini: 0.0002,
-          },
-        };
+        // Offline: keep using a stale cache if there is one
       }
     }
+
+    this.setCatalog(cached?.models || []);
+  }
+
+  setCatalog(models: Pick<OpenRouterModel, 'id' | 'pricing'>[]): void {
+    this.catalog.clear();
+    models.forEach(({ id, pricing }) => {
+      if (!pricing) return;
+      this.catalog.set(id, {
+        prompt: parsePrice(pricing.prompt),
+        completion: parsePrice(pricing.completion),
+        request: parsePrice(pricing.request),
+        reasoning: pricing.internal_reasoning ? parsePrice(pricing.internal_reasoning) : undefined,
+        webSearch: parsePrice(pricing.web_search),
+      });
+    });
+  }
+
+  setLocalProviders(names: string[]): void {
+    names.forEach((name) => this.localProviders.add(name));
+  }
+
+  calculate(modelId: string, usage: ModelUsage): number {
+    const separator = modelId.indexOf(':');
+    if (separator > 0 && this.localProviders.has(modelId.slice(0, separator))) {
+      return this.calculateLocal(modelId, modelId.slice(separator + 1), usage);
+    }
+
+    const price = this.catalog.get(modelId.replace(/:online$/, ''));
+    const webCost = (usage.webResults || 0) * WEB_PLUGIN_PRICE_PER_RESULT;
+
+    if (!price) {
+      return this.calculateFromOverrides(modelId, usage) + webCost;
+    }
+
+    // Reasoning tokens are part of the completion count but may be billed at their own rate
+    const reasoningTokens = price.reasoning !== undefined ? usage.reasoningTokens || 0 : 0;
+    return (
+      usage.promptTokens * price.prompt +
+      (usage.completionTokens - reasoningTokens) * price.completion +
+      reasoningTokens * (price.reasoning ?? 0) +
+      price.request +
+      (usage.webSearches || 0) * price.webSearch +
+      webCost
+    );
   }
 
-  calculate(modelId: string, usage: { totalTokens: number }): number {
+  /**
+   * A self-hosted model costs nothing, unless the user's `pricing.json` names
+   * it under `models`, by its full ID or by the model name without its
+   * provider. The bundled rates are for hosted models of the same names.
+   */
+  private calculateLocal(modelId: string, model: string, usage: ModelUsage): number {
     if (!this.pricing) {
-      // Use sync loading if not loaded
       this.loadPricingSync();
     }
+    if (!this.userPricing) {
+      return 0;
+    }
 
-    const rate = this.findRate(modelId);
-    return (usage.totalTokens / 1000) * rate;
+    const rate = this.findModelRate(modelId) ?? this.findModelRate(model);
+    return rate === undefined ? 0 : this.rateCost(rate, usage);
   }
 
-  private findRate(modelId: string): number {
+  private calculateFromOverrides(modelId: string, usage: ModelUsage): number {
     if (!this.pricing) {
-      return 0.002; // Default fallback
+      this.loadPricingSync();
     }
 
-    const modelLower = modelId.toLowerCase();
+    return this.rateCost(this.findRate(modelId), usage);
+  }
 
-    // Check exact model matches first
-    for (const [model, rate] of Object.entries(this.pricing.models)) {
-      if (modelLower.includes(model)) {
-        return rate;
-      }
+  private rateCost(rate: OverrideRate, usage: ModelUsage): number {
+    if (typeof rate === 'number') {
+      return ((usage.promptTokens + usage.completionTokens) / 1000) * rate;
+    }
+    return (
+      (usage.promptTokens / 1000) * rate.prompt + (usage.completionTokens / 1000) * rate.completion
+    );
+  }
+
+  /**
+   * The rate of the longest configured model name prefixing the model's name
+   */
+  private findModelRate(modelId: string): OverrideRate | undefined {
+    const pricing = this.pricing || MINIMAL_PRICING;
+    const name = modelId.toLowerCase().split('/').pop()!;
+
+    const modelKey = Object.keys(pricing.models)
+      .filter((key) => modelId.toLowerCase() === key || name.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    return modelKey ? pricing.models[modelKey] : undefined;
+  }
+
+  /**
+   * Match the longest configured model name prefixing the model's name, then
+   * patterns naming a whole word of it (so `pro` matches `gemini-pro` but not `deepseek-prover`)
+   */
+  private findRate(modelId: string): OverrideRate {
+    const pricing = this.pricing || MINIMAL_PRICING;
+    const name = modelId.toLowerCase().split('/').pop()!;
+
+    const modelRate = this.findModelRate(modelId);
+    if (modelRate !== undefined) {
+      return modelRate;
     }
 
-    // Check patterns
-    for (const [pattern, rate] of Object.entries(this.pricing.patterns)) {
-      if (modelLower.includes(pattern)) {
-        return rate;
-      }
+    const words = name.split(/[-_.:]/);
+    const patternKey = Object.keys(pricing.patterns).find((pattern) => words.includes(pattern));
+    if (patternKey) {
+      return pricing.patterns[patternKey];
     }
 
-    return this.pricing.defaultRate;
+    return pricing.defaultRate;
   }
 
   private loadPricingSync(): void {
@@ -92,6 +228,7 @@ export class PricingService implements IPricingService {
       const userPricingPath = path.join(process.cwd(), 'pricing.json');
       const content = readFileSync(userPricingPath, 'utf-8');
       this.pricing = JSON.parse(content) as PricingConfig;
+      this.userPricing = true;
     } catch {
       // Fall back to default pricing
       const __filename = fileURLToPath(import.meta.url);
@@ -103,15 +240,7 @@ export class PricingService implements IPricingService {
         this.pricing = JSON.parse(content) as PricingConfig;
       } catch {
         // If all else fails, use minimal defaults
-        this.pricing = {
-          defaultRate: 0.002,
-          models: {},
-          patterns: {
-            free: 0,
-            turbo: 0.0005,
-            mini: 0.0002,
-          },
-        };
+        this.pricing = MINIMAL_PRICING;
       }
     }
   }
@@ -0,0 +1,118 @@
+import 'reflect-metadata';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { injectable, inject } from 'tsyringe';
+
+import { getCacheDir } from '../config.js';
+import { IConfigService, ISessionService } from '../interfaces.js';
+import { CouncilConfig, SessionRecord } from '../types.js';
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Stores each session as a JSON file in the cache directory's `sessions`
+ * folder, named by its ID
+ */
+@injectable()
+export class SessionService implements ISessionService {
+  constructor(@inject('IConfigService') private configService: IConfigService) {}
+
+  private get directory(): string {
+    return path.join(getCacheDir(), 'sessions');
+  }
+
+  create(config: CouncilConfig, council?: string): SessionRecord {
+    const now = new Date().toISOString();
+    return {
+      id: randomBytes(4).toString('hex'),
+      createdAt: now,
+      updatedAt: now,
+      council,
+      config,
+      turns: [],
+    };
+  }
+
+  async save(session: SessionRecord): Promise<boolean> {
+    const history = this.configService.getHistory();
+    if (history?.enabled === false) return false;
+
+    session.updatedAt = new Date().toISOString();
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      path.join(this.directory, `${session.id}.json`),
+      JSON.stringify(session, null, 2)
+    );
+    await this.prune(history?.retentionDays ?? DEFAULT_RETENTION_DAYS);
+    return true;
+  }
+
+  async load(id: string): Promise<SessionRecord> {
+    const matches = (await this.ids()).filter((candidate) => candidate.startsWith(id));
+    if (matches.length === 0) {
+      throw new Error(`No session matches "${id}"; see "coe history"`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`"${id}" matches ${matches.length} sessions; give more of the ID`);
+    }
+    return this.read(matches[0]);
+  }
+
+  async list(search?: string): Promise<SessionRecord[]> {
+    const sessions: SessionRecord[] = [];
+    for (const id of await this.ids()) {
+      try {
+        sessions.push(await this.read(id));
+      } catch {
+        // Unreadable sessions are left out
+      }
+    }
+
+    const term = search?.toLowerCase();
+    return sessions
+      .filter(
+        (session) =>
+          !term ||
+          session.council?.toLowerCase().includes(term) ||
+          session.turns.some((turn) => turn.prompt.toLowerCase().includes(term))
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  private async ids(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.directory);
+      return files.filter((file) => file.endsWith('.json')).map((file) => file.slice(0, -5));
+    } catch {
+      return [];
+    }
+  }
+
+  private async read(id: string): Promise<SessionRecord> {
+    return JSON.parse(
+      await fs.readFile(path.join(this.directory, `${id}.json`), 'utf-8')
+    ) as SessionRecord;
+  }
+
+  /**
+   * Delete sessions not updated within `retentionDays`
+   */
+  private async prune(retentionDays: number): Promise<void> {
+    if (retentionDays === 0) return;
+
+    const cutoff = Date.now() - retentionDays * DAY_MS;
+    for (const id of await this.ids()) {
+      const filePath = path.join(this.directory, `${id}.json`);
+      try {
+        if ((await fs.stat(filePath)).mtimeMs < cutoff) {
+          await fs.unlink(filePath);
+        }
+      } catch {
+        // Already gone
+      }
+    }
+  }
+}
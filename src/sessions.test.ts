@@ -0,0 +1,59 @@
+import { mkdtempSync, rmSync, utimesSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { HistoryConfig } from './config-schema.js';
+import { IConfigService } from './interfaces.js';
+import { SessionService } from './services/SessionService.js';
+
+function sessionService(history?: HistoryConfig): SessionService {
+  return new SessionService({ getHistory: () => history } as IConfigService);
+}
+
+describe('SessionService', () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = mkdtempSync(path.join(tmpdir(), 'coe-sessions-'));
+    vi.stubEnv('COE_CACHE_DIR', cacheDir);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should store sessions and find them by ID prefix and by search', async () => {
+    const sessions = sessionService();
+    const session = sessions.create({ models: ['one', 'two'] }, 'research');
+    session.turns.push({ prompt: 'Is Rust fast?', result: { rounds: [[]] } });
+    expect(await sessions.save(session)).toBe(true);
+
+    const loaded = await sessions.load(session.id.slice(0, 4));
+    expect(loaded.turns[0].prompt).toBe('Is Rust fast?');
+    expect(loaded.config.models).toEqual(['one', 'two']);
+
+    expect(await sessions.list('rust')).toHaveLength(1);
+    expect(await sessions.list('RESEARCH')).toHaveLength(1);
+    expect(await sessions.list('python')).toHaveLength(0);
+    await expect(sessions.load('zzzz')).rejects.toThrow('No session matches');
+  });
+
+  it('should delete sessions past retention and store nothing when disabled', async () => {
+    const sessions = sessionService({ enabled: true, retentionDays: 7 });
+    const old = sessions.create({ models: ['one'] });
+    await sessions.save(old);
+    const monthAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    utimesSync(path.join(cacheDir, 'sessions', `${old.id}.json`), monthAgo, monthAgo);
+
+    const recent = sessions.create({ models: ['one'] });
+    await sessions.save(recent);
+    expect((await sessions.list()).map((s) => s.id)).toEqual([recent.id]);
+
+    const disabled = sessionService({ enabled: false, retentionDays: 7 });
+    expect(await disabled.save(disabled.create({ models: ['one'] }))).toBe(false);
+    expect(await sessions.list()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+
+import { StreamRenderer } from './cli/StreamRenderer.js';
+
+function renderer() {
+  let output = '';
+  const stream = {
+    isTTY: false,
+    write: (text: string) => {
+      output += text;
+      return true;
+    },
+  } as unknown as NodeJS.WriteStream;
+  return { renderer: new StreamRenderer({ stream }), output: () => output };
+}
+
+describe('StreamRenderer', () => {
+  it('should mark answers cut off by first-n, cancellation or a deadline', () => {
+    const { renderer: r, output } = renderer();
+    r.start('one', 'Elder One');
+    r.start('two', 'Elder Two');
+    r.start('three', 'Elder Three');
+    r.append('one', 'A partial');
+    r.append('two', 'A full answer\n');
+    r.finish('one', 'timedOut');
+    r.finish('two');
+    r.finish('three', 'cancelled');
+    r.stop();
+
+    expect(output()).toContain('[Elder One] A partial\n');
+    expect(output()).toContain('[Elder One] timed out\n');
+    expect(output()).toContain('[Elder Three] cancelled\n');
+    expect(output()).not.toContain('[Elder Two] cancelled');
+  });
+});
@@ -0,0 +1,98 @@
+import { ModelResponse, OpenRouterMessage } from './council-client.js';
+import { Synthesis } from './synthesis-schema.js';
+
+/**
+ * Messages asking a synthesizer for a single answer to `originalPrompt` from
+ * the council's discussion, or undefined when no elder answered in the final
+ * round. A `structured` synthesis also reports how the council got there.
+ */
+export function buildSynthesisMessages(
+  originalPrompt: string,
+  allRounds: ModelResponse[][],
+  structured = false
+): OpenRouterMessage[] | undefined {
+  const finalResponses = allRounds[allRounds.length - 1];
+  const successfulResponses = finalResponses.filter((r) => !r.error && r.content);
+
+  if (successfulResponses.length === 0) {
+    return undefined;
+  }
+
+  let synthesisPrompt = `You are tasked with providing a single, unified answer to a question based on a council discussion.
+
+Original Question: "${originalPrompt}"
+
+`;
+
+  if (allRounds.length > 1) {
+    synthesisPrompt += `Full Council Discussion (${allRounds.length} rounds):\n\n`;
+
+    allRounds.forEach((roundResponses, roundIndex) => {
+      synthesisPrompt += `=== Round ${roundIndex + 1} ===\n`;
+      roundResponses.forEach((response, modelIndex) => {
+        if (!response.error && response.content) {
+          synthesisPrompt += `\nElder ${modelIndex + 1}:\n${response.content}\n`;
+        }
+      });
+      synthesisPrompt += '\n';
+    });
+
+    synthesisPrompt += `\nBased on this full discussion, including how perspectives evolved across rounds, provide a comprehensive synthesis.`;
+  } else {
+    synthesisPrompt += `Expert Perspectives:\n`;
+    successfulResponses.forEach((r, i) => {
+      synthesisPrompt += `\nPerspective ${i + 1}:\n${r.content}\n`;
+    });
+    synthesisPrompt += `\nBased on these perspectives, provide a direct, comprehensive answer.`;
+  }
+
+  synthesisPrompt += structured
+    ? `\n\nGive the definitive answer as the summary. Then list the points the council agreed on, each member's distinct contribution under the label used above, any remaining disagreements, your confidence in the answer, and actionable recommendations.`
+    : `\n\nDo not mention the council, multiple perspectives, or synthesis process. Simply answer the question as if you are providing the definitive response.`;
+
+  return [
+    {
+      role: 'system',
+      content: structured
+        ? "You are an expert synthesizer. Report the council's answer and how it was reached, based only on the information given."
+        : 'You are an expert synthesizer. Provide clear, direct answers based on the information given. Never mention the synthesis process or multiple sources.',
+    },
+    { role: 'user', content: synthesisPrompt },
+  ];
+}
+
+/**
+ * Render a structured synthesis as Markdown, starting at heading level `level`
+ */
+export function formatStructuredSynthesis(synthesis: Synthesis, level = 3): string {
+  const heading = '#'.repeat(level);
+  const list = (items: string[]) => items.map((item) => `- ${item}`).join('\n') + '\n\n';
+
+  let md = `${synthesis.summary}\n\n`;
+  md += `**Confidence:** ${Math.round(synthesis.confidence * 100)}%\n\n`;
+
+  if (synthesis.keyPoints.length > 0) {
+    md += `${heading} Key Points\n\n${list(synthesis.keyPoints)}`;
+  }
+  if (synthesis.disagreements && synthesis.disagreements.length > 0) {
+    md += `${heading} Disagreements\n\n${list(synthesis.disagreements)}`;
+  }
+  if (synthesis.recommendations && synthesis.recommendations.length > 0) {
+    md += `${heading} Recommendations\n\n${list(synthesis.recommendations)}`;
+  }
+  if (synthesis.perspectives.length > 0) {
+    md += `${heading} Perspectives\n\n`;
+    md += list(
+      synthesis.perspectives.map(
+        (p) =>
+          `**${p.model}**: ${p.contribution}${p.confidence !== undefined ? ` (confidence ${Math.round(p.confidence * 100)}%)` : ''}`
+      )
+    );
+  }
+  if (synthesis.citations && synthesis.citations.length > 0) {
+    md += `${heading} Citations\n\n`;
+    md += list(synthesis.citations.map((c) => `[${c.source}](${c.url}) - ${c.relevance}`));
+  }
+
+  return md;
+}
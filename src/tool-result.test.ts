@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+
+import { ModelResponse } from './council-client.js';
+import { ToolResultSchema, buildToolResult, toolOutputSchema } from './tool-result.js';
+import { tallyVotes } from './voting.js';
+
+function answer(model: string, choice: string, cost: number): ModelResponse {
+  return {
+    model,
+    content: `${choice}, because`,
+    vote: { choice, confidence: 0.8 },
+    citations: [{ url: 'https://example.com', title: 'Example', start_index: 0, end_index: 1 }],
+    meta: { totalTokens: 10, latencyMs: 100, estimatedCost: cost },
+  };
+}
+
+describe('MCP tool result', () => {
+  it('should describe every round, the vote and the totals', () => {
+    const round = [answer('one', 'yes', 0.01), answer('two', 'no', 0.02)];
+    const failed: ModelResponse = { model: 'three', error: 'Rate limited', meta: {} };
+    const result = buildToolResult(
+      { rounds: [[...round, failed]], vote: tallyVotes(['yes', 'no'], round) },
+      'research'
+    );
+
+    expect(ToolResultSchema.parse(result)).toEqual(result);
+    expect(result.answers.map((a) => a.status)).toEqual(['success', 'success', 'error']);
+    expect(result.vote?.counts).toEqual([
+      { choice: 'yes', votes: 1, weight: 0.8 },
+      { choice: 'no', votes: 1, weight: 0.8 },
+    ]);
+    expect(result.citations).toEqual([{ url: 'https://example.com', title: 'Example' }]);
+    expect(result.metadata.totalCost).toBeCloseTo(0.03);
+    expect(result.metadata).toMatchObject({ totalTokens: 20, averageLatency: 100, modelCount: 3 });
+    expect(toolOutputSchema).toMatchObject({ type: 'object' });
+  });
+});
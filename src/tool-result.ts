@@ -0,0 +1,144 @@
+import { zodSchema } from 'ai';
+import { z } from 'zod';
+
+import { consensusMetadata } from './budget.js';
+import { collectCitations } from './citations.js';
+import { ModelResponse } from './council-client.js';
+import { SynthesisSchema } from './synthesis-schema.js';
+import { ConsensusResponse } from './types.js';
+
+const CitationSchema = z.object({ url: z.string(), title: z.string() });
+
+const ElderAnswerSchema = z.object({
+  model: z.string().describe('Seat ID, e.g. `openai/gpt-4o` or `openai/gpt-4o#skeptic`'),
+  answeredBy: z.string().optional().describe('Fallback model that answered for the seat'),
+  role: z.string().optional().describe('Debate role'),
+  status: z.enum(['success', 'error', 'cancelled', 'timedOut']),
+  content: z.string().optional(),
+  error: z.string().optional(),
+  revised: z.boolean().optional().describe('Whether the elder changed its answer this round'),
+  vote: z.object({ choice: z.string(), confidence: z.number() }).optional(),
+  citations: z.array(CitationSchema).optional(),
+  meta: z
+    .object({
+      promptTokens: z.number().optional(),
+      completionTokens: z.number().optional(),
+      totalTokens: z.number().optional(),
+      latencyMs: z.number().optional(),
+      estimatedCost: z.number().optional(),
+      cached: z.boolean().optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Structured result of the MCP consult tools, returned alongside the Markdown
+ */
+export const ToolResultSchema = z.object({
+  council: z.string().optional().describe('Council consulted; absent for the default one'),
+  answers: z.array(ElderAnswerSchema).describe("Each elder's answer in the final round"),
+  rounds: z.array(z.array(ElderAnswerSchema)).describe('Every round, first to last'),
+  synthesis: z
+    .object({
+      model: z.string(),
+      content: z.string().optional(),
+      structured: SynthesisSchema.optional(),
+      error: z.string().optional(),
+    })
+    .optional(),
+  verdict: z
+    .object({ model: z.string(), content: z.string().optional(), error: z.string().optional() })
+    .optional()
+    .describe("The judge's ruling, when the council debated"),
+  vote: z
+    .object({
+      winner: z.string().optional(),
+      weightedWinner: z.string().optional(),
+      agreement: z.number().describe('Share of the votes cast that went to the winner'),
+      counts: z.array(z.object({ choice: z.string(), votes: z.number(), weight: z.number() })),
+      dissent: z.array(z.object({ model: z.string(), choice: z.string(), rationale: z.string() })),
+    })
+    .optional(),
+  ranking: z
+    .object({
+      winner: z.string().optional(),
+      leaderboard: z.array(
+        z.object({ model: z.string(), points: z.number(), firstPlaces: z.number() })
+      ),
+    })
+    .optional(),
+  citations: z.array(CitationSchema).describe('Unique web sources cited in any round'),
+  convergedAtRound: z.number().optional(),
+  stopped: z.enum(['budget', 'cancelled']).optional(),
+  metadata: z.object({
+    totalCost: z.number(),
+    totalTokens: z.number(),
+    averageLatency: z.number(),
+    modelCount: z.number(),
+  }),
+});
+
+export type ToolResult = z.infer<typeof ToolResultSchema>;
+
+/**
+ * JSON Schema of the tools' structured result, for their `outputSchema`
+ */
+export const toolOutputSchema = zodSchema(ToolResultSchema).jsonSchema as Record<string, unknown>;
+
+function elderAnswer(response: ModelResponse): z.infer<typeof ElderAnswerSchema> {
+  const { meta } = response;
+  return {
+    model: response.model,
+    answeredBy: response.answeredBy,
+    role: response.role,
+    status: response.status ?? (response.error ? 'error' : 'success'),
+    content: response.content,
+    error: response.error,
+    revised: response.revised,
+    vote: response.vote,
+    citations: response.citations?.map(({ url, title }) => ({ url, title })),
+    meta: meta && {
+      promptTokens: meta.promptTokens,
+      completionTokens: meta.completionTokens,
+      totalTokens: meta.totalTokens,
+      latencyMs: meta.latencyMs,
+      estimatedCost: meta.estimatedCost,
+      cached: meta.cached,
+    },
+  };
+}
+
+/**
+ * The structured result of a consultation. Answers a single round returned
+ * without metadata are totalled here.
+ */
+export function buildToolResult(result: ConsensusResponse, council?: string): ToolResult {
+  const { synthesis, verdict, vote, ranking } = result;
+
+  return {
+    council,
+    answers: result.rounds[result.rounds.length - 1].map(elderAnswer),
+    rounds: result.rounds.map((round) => round.map(elderAnswer)),
+    synthesis: synthesis && {
+      model: synthesis.model,
+      content: synthesis.content,
+      structured: synthesis.structured,
+      error: synthesis.error,
+    },
+    verdict: verdict && { model: verdict.model, content: verdict.content, error: verdict.error },
+    vote: vote && {
+      winner: vote.winner,
+      weightedWinner: vote.weightedWinner,
+      agreement: vote.agreement,
+      counts: vote.choices.map((choice) => ({ choice, ...vote.counts[choice] })),
+      dissent: vote.dissent,
+    },
+    ranking: ranking && { winner: ranking.winner, leaderboard: ranking.leaderboard },
+    citations: (result.citations || collectCitations(result.rounds.flat())).map(
+      ({ url, title }) => ({ url, title })
+    ),
+    convergedAtRound: result.convergedAtRound,
+    stopped: result.stopped,
+    metadata: result.metadata || consensusMetadata(result),
+  };
+}
@@ -18,6 +18,8 @@ export interface CliOptions {
   meta?: boolean;
   showModels?: boolean;
   single?: boolean;
+  rank?: boolean;
+  structured?: boolean;
   temperature?: number;
   files?: string[];
   firstN?: number;
@@ -26,7 +28,15 @@ export interface CliOptions {
   webMaxResults?: number;
   webContext?: 'low' | 'medium' | 'high';
   timeLimit?: number;
+  roundTimeLimit?: number;
+  maxRounds?: number;
+  convergenceThreshold?: number;
+  choices?: string[];
   config?: string;
+  stream?: boolean;
+  /** False with --no-cache */
+  cache?: boolean;
+  refresh?: boolean;
 }
 
 export interface PromptChoice {
@@ -37,17 +47,37 @@ export interface PromptChoice {
 }
 
 // Council types
-export type ModelConfig = string | { model: string; system?: string };
+export type ModelConfig =
+  | string
+  | {
+      model: string;
+      system?: string;
+      persona?: string;
+      provider?: string;
+      fallbacks?: string[];
+      role?: DebateRole;
+      position?: string;
+    };
 
 export interface CouncilConfig {
+  /** Council the configuration was loaded for; absent for a root configuration */
+  name?: string;
   models: ModelConfig[];
   system?: string;
   synthesizer?: string | { model: string; system?: string };
   rounds?: number;
+  mode?: 'consensus' | 'debate';
+  maxRounds?: number;
+  convergenceThreshold?: number;
+  peerReview?: PeerReviewOptions;
+  personas?: Record<string, string>;
+  choices?: string[];
   defaults?: {
     temperature?: number;
     firstN?: number;
     single?: boolean;
+    rank?: boolean;
+    structured?: boolean;
     web?: boolean;
     webMaxResults?: number;
     webContext?: 'low' | 'medium' | 'high';
@@ -56,15 +86,38 @@ export interface CouncilConfig {
     showModels?: boolean;
     rounds?: number;
     timeLimit?: number;
+    roundTimeLimit?: number;
+    cache?: CacheMode;
   };
+  retry?: Partial<RetryPolicy>;
+  maxCostPerQuery?: number;
+  maxCostPerDay?: number;
 }
 
 // Import ModelResponse from council-client to maintain consistency
-import { ModelResponse } from './council-client.js';
+import { ModelResponse, OpenRouterMessage, UrlCitation } from './council-client.js';
+import { DebateRole } from './debate.js';
+import { PeerReviewOptions } from './peer-review.js';
+import { PeerRanking } from './ranking.js';
+import { CacheMode } from './response-cache.js';
+import { RetryPolicy } from './retry.js';
+import { VoteTally } from './voting.js';
 
 export interface ConsensusResponse {
   rounds: ModelResponse[][];
   synthesis?: ModelResponse;
+  /** The judge's ruling, when the council debated */
+  verdict?: ModelResponse;
+  /** The elders' rankings of each other's final answers, when requested */
+  ranking?: PeerRanking;
+  /** Tally of the final round, when the council voted */
+  vote?: VoteTally;
+  /** Unique web sources cited by any elder in any round */
+  citations?: UrlCitation[];
+  /** Set when the discussion ended before its configured rounds or synthesis */
+  stopped?: 'budget' | 'cancelled';
+  /** Round after which the elders stopped revising their answers, ending the discussion early */
+  convergedAtRound?: number;
   metadata?: {
     totalCost: number;
     totalTokens: number;
@@ -72,3 +125,53 @@ export interface ConsensusResponse {
     modelCount: number;
   };
 }
+
+// One question and the council's answer in a chat
+export interface ChatTurn {
+  prompt: string;
+  council?: string;
+  result: ConsensusResponse;
+  /** ISO timestamp of when the question was put */
+  startedAt?: string;
+  durationMs?: number;
+}
+
+// A stored run: its first question, any follow-ups, and the council that answered
+export interface SessionRecord {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Council of the latest turn, when named */
+  council?: string;
+  /** Council configuration of the latest turn, as resolved with the run's options */
+  config: CouncilConfig;
+  turns: ChatTurn[];
+  /** First turn the elders still remember; earlier turns were cleared from their history */
+  historyStart?: number;
+}
+
+// What the council said before a query, for follow-ups and added rounds
+export interface ConsensusContext {
+  /** Each seat's earlier conversation, by seat index */
+  history?: OpenRouterMessage[][];
+  /** Consensus rounds already held on the prompt; the query continues after them */
+  earlierRounds?: ModelResponse[][];
+}
+
+// Callbacks for observing a council query while it runs
+export interface CouncilQueryHooks {
+  /**
+   * Told as each seat is queried and answers: `querying`, then `complete`,
+   * `cancelled` or `timedOut`. Seats out of a discussion report `skipped`
+   * for each round they sit out.
+   */
+  onProgress?: (round: number, model: string, status: string) => void;
+  onChunk?: (text: string, model: string) => void;
+  onSynthesisChunk?: (text: string, model: string) => void;
+  /** Told when a step after the rounds, ranking or synthesis, starts and completes */
+  onStage?: (stage: 'ranking' | 'synthesis', status: 'started' | 'complete') => void;
+  /** Asked whether to run a query whose estimated cost exceeds the budget */
+  confirmBudget?: (estimate: number, limit: number) => Promise<boolean>;
+  /** Aborts every request of the query; rounds and steps not yet begun are skipped */
+  signal?: AbortSignal;
+}
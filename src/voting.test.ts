@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+
+import { ModelResponse } from './council-client.js';
+import { parseChoices, tallyVotes } from './voting.js';
+
+const ballot = (model: string, choice: string, confidence: number): ModelResponse => ({
+  model,
+  status: 'success',
+  content: `${model} picked ${choice}`,
+  vote: { choice, confidence },
+});
+
+describe('Voting', () => {
+  it('should parse a comma-separated choice list', () => {
+    expect(parseChoices(' yes, no ,,maybe ')).toEqual(['yes', 'no', 'maybe']);
+  });
+
+  it('should tally the majority, the weighted winner and the dissent', () => {
+    const tally = tallyVotes(
+      ['a', 'b', 'c'],
+      [
+        ballot('one', 'a', 0.25),
+        ballot('two', 'a', 0.5),
+        ballot('three', 'b', 0.9),
+        { model: 'four', status: 'error', error: 'Vote failed' },
+      ]
+    );
+
+    expect(tally.counts).toEqual({
+      a: { votes: 2, weight: 0.75 },
+      b: { votes: 1, weight: 0.9 },
+      c: { votes: 0, weight: 0 },
+    });
+    expect(tally.winner).toBe('a');
+    expect(tally.weightedWinner).toBe('b');
+    expect(tally.agreement).toBeCloseTo(2 / 3);
+    expect(tally.dissent).toEqual([{ model: 'three', choice: 'b', rationale: 'three picked b' }]);
+  });
+
+  it('should break a tied vote by confidence and declare no winner without votes', () => {
+    const tied = tallyVotes(['yes', 'no'], [ballot('one', 'yes', 0.5), ballot('two', 'no', 0.8)]);
+    expect(tied.winner).toBe('no');
+
+    const empty = tallyVotes(['yes', 'no'], [{ model: 'one', status: 'cancelled' }]);
+    expect(empty.winner).toBeUndefined();
+    expect(empty.agreement).toBe(0);
+  });
+});
@@ -0,0 +1,115 @@
+import { z } from 'zod';
+
+import { ModelResponse } from './council-client.js';
+import { PeerReview } from './peer-review.js';
+
+/**
+ * Schema for one elder's vote among `choices`
+ */
+export function voteSchema(choices: string[]) {
+  return z.object({
+    choice: z.enum(choices as [string, ...string[]]).describe('The option you vote for'),
+    rationale: z.string().describe('Why this option, in a few sentences'),
+    confidence: z.number().min(0).max(1).describe('How sure you are, from 0 to 1'),
+  });
+}
+
+export interface ChoiceCount {
+  votes: number;
+  /** Sum of the voters' confidence */
+  weight: number;
+}
+
+export interface Dissent {
+  model: string;
+  choice: string;
+  rationale: string;
+}
+
+export interface VoteTally {
+  choices: string[];
+  counts: Record<string, ChoiceCount>;
+  /** Choice with the most votes, ties broken by weight; undefined when nobody voted */
+  winner?: string;
+  /** Choice with the most confidence-weighted votes */
+  weightedWinner?: string;
+  /** Share of the votes cast that went to the winner */
+  agreement: number;
+  /** Rationales of the elders who voted against the winner */
+  dissent: Dissent[];
+}
+
+/**
+ * Parse a `--choices a,b,c` list
+ */
+export function parseChoices(value: string): string[] {
+  return value
+    .split(',')
+    .map((choice) => choice.trim())
+    .filter(Boolean);
+}
+
+export function tallyVotes(choices: string[], responses: ModelResponse[]): VoteTally {
+  const counts: Record<string, ChoiceCount> = Object.fromEntries(
+    choices.map((choice) => [choice, { votes: 0, weight: 0 }])
+  );
+  const voted = responses.filter((r) => r.vote && counts[r.vote.choice]);
+  voted.forEach(({ vote }) => {
+    counts[vote!.choice].votes++;
+    counts[vote!.choice].weight += vote!.confidence;
+  });
+
+  const byVotes = [...choices].sort(
+    (a, b) => counts[b].votes - counts[a].votes || counts[b].weight - counts[a].weight
+  );
+  const byWeight = [...choices].sort(
+    (a, b) => counts[b].weight - counts[a].weight || counts[b].votes - counts[a].votes
+  );
+  const winner = voted.length > 0 ? byVotes[0] : undefined;
+
+  return {
+    choices,
+    counts,
+    winner,
+    weightedWinner: voted.length > 0 ? byWeight[0] : undefined,
+    agreement: winner ? counts[winner].votes / voted.length : 0,
+    dissent: voted
+      .filter((r) => r.vote!.choice !== winner)
+      .map((r) => ({ model: r.model, choice: r.vote!.choice, rationale: r.content || '' })),
+  };
+}
+
+/**
+ * Prompt asking an elder to vote on `question`
+ */
+export function buildVotePrompt(question: string, choices: string[]): string {
+  return `${question}\n\nVote for exactly one of these options: ${choices.map((c) => `"${c}"`).join(', ')}. Explain your rationale and rate your confidence from 0 to 1.`;
+}
+
+/**
+ * Prompt showing an elder the previous round's tally and the voters'
+ * rationales before it votes again. Without `ownVote` the elder's previous
+ * vote is left among the others, unmarked.
+ */
+export function buildRevotePrompt(
+  tally: VoteTally,
+  review: PeerReview,
+  ownVote?: ModelResponse
+): string {
+  let prompt = 'The council voted:\n';
+  tally.choices.forEach((choice) => {
+    const { votes } = tally.counts[choice];
+    prompt += `- ${choice}: ${votes} ${votes === 1 ? 'vote' : 'votes'}\n`;
+  });
+
+  prompt += ownVote ? '\nThe other voters explained:\n\n' : '\nThe voters explained:\n\n';
+  review.entries.forEach(({ label, response }) => {
+    prompt += `**${label}** voted "${response.vote!.choice}":\n${response.content}\n\n`;
+  });
+
+  if (ownVote) {
+    prompt += `You voted "${ownVote.vote!.choice}". `;
+  }
+  prompt += 'Vote again, changing your vote only if these arguments persuade you.';
+  return prompt;
+}